@@ -17,13 +17,15 @@
 
 */
 import { SimpleEventEmitter } from './simple-event-emitter';
-import { DataReference, DataReferenceQuery } from './data-reference';
+import { DataReference, DataReferenceQuery, WriteBatch } from './data-reference';
 import { TypeMappings } from './type-mappings';
 import { setObservable } from './optional-observable';
 import type { Api } from './api';
 import { DebugLogger, LoggingLevel } from './debug';
 import { ColorStyle, SetColorsEnabled } from './simple-colors';
 import { LoggerPlugin } from './logger';
+import { EnsureIndexesOptions, getIndexActions, IndexDefinition } from './indexes';
+import type { ISchemaCheckOptions } from './schema';
 
 export class AceBaseBaseSettings {
     /**
@@ -185,6 +187,15 @@ export abstract class AceBaseBase extends SimpleEventEmitter {
         return new DataReferenceQuery(ref);
     }
 
+    /**
+     * Creates a batch to group set, update and remove operations on multiple nodes,
+     * which are committed to the database as a single atomic operation
+     * @returns new write batch
+     */
+    batch(): WriteBatch {
+        return new WriteBatch(this);
+    }
+
     get indexes() {
         return {
             /**
@@ -226,6 +237,47 @@ export abstract class AceBaseBase extends SimpleEventEmitter {
             delete: async (filePath: string) => {
                 return this.api.deleteIndex(filePath);
             },
+            /**
+             * Makes sure the declared indexes exist with the declared options: creates missing indexes, rebuilds indexes
+             * with other options, and optionally deletes indexes that are not declared. If rebuilding an index fails, the
+             * previous index is recreated and the error is thrown
+             * @param definitions declared indexes
+             * @param options whether to delete undeclared indexes (`drop`), or to only report what would be done (`dryRun`)
+             * @returns returns a promise that resolves with the actions taken for each declared and existing index
+             * @example
+             * const actions = await db.indexes.ensure([
+             *     { path: 'users', key: 'email' },
+             *     { path: 'users/*\/posts', key: 'text', type: 'fulltext' },
+             * ], { drop: true });
+             */
+            ensure: async (definitions: IndexDefinition[], options: EnsureIndexesOptions = {}) => {
+                const actions = getIndexActions(definitions, await this.api.getIndexes(), options.drop === true);
+                if (options.dryRun) {
+                    return actions;
+                }
+                for (const action of actions) {
+                    const { definition, index } = action;
+                    if (action.action === 'drop' || action.action === 'rebuild') {
+                        // Rebuild by recreating, the engine might otherwise keep the existing index with the other options
+                        await this.api.deleteIndex(index.fileName);
+                    }
+                    if (action.action === 'create' || action.action === 'rebuild') {
+                        const { type, include, textLocale, config } = definition;
+                        try {
+                            action.index = await this.api.createIndex(definition.path, definition.key, { type, include, textLocale, config });
+                        }
+                        catch (err) {
+                            if (action.action === 'create') { throw err; }
+                            // Roll back to the previous index
+                            const restored = await this.api.createIndex(index.path, index.key, { type: index.type, include: index.includeKeys, textLocale: index.textLocale })
+                                .then(() => true, () => false);
+                            throw new Error(`Failed to rebuild index on key "${index.key}" of "/${index.path}" (${action.reason}): ${err?.message ?? err}. `
+                                + (restored ? 'The previous index was restored' : 'The previous index could not be restored'));
+                        }
+                    }
+                }
+                return actions;
+            },
         };
     }
 
@@ -240,8 +292,12 @@ export abstract class AceBaseBase extends SimpleEventEmitter {
             all: () => {
                 return this.api.getSchemas();
             },
-            check: (path: string, value: unknown, isUpdate: boolean) => {
-                return this.api.validateSchema(path, value, isUpdate);
+            /**
+             * Checks if a value can be stored at a path, without storing it
+             * @param options `all: true` to get all violations in the result's `violations`, eg to show every invalid field of a form
+             */
+            check: (path: string, value: unknown, isUpdate: boolean, options?: ISchemaCheckOptions) => {
+                return this.api.validateSchema(path, value, isUpdate, options);
             },
         };
     }
@@ -0,0 +1,78 @@
+import { avg, count, evaluateAggregates, evaluateDistinct, getAggregateKeys, groupBy, max, min, sum, validateAggregates } from './aggregate';
+
+describe('aggregates', () => {
+    const orders: any[] = [
+        { status: 'paid', amount: 10, date: new Date('2024-01-03'), customer: { country: 'NL' } },
+        { status: 'paid', amount: 25.5, date: new Date('2024-01-01'), customer: { country: 'BE' } },
+        { status: 'pending', amount: 4, date: new Date('2024-01-02'), customer: { country: 'NL' } },
+        { status: 'canceled', amount: null, date: null, customer: null },
+    ];
+
+    it('count, sum, avg, min and max', () => {
+        const result = evaluateAggregates({
+            n: count(),
+            total: sum('amount'),
+            average: avg('amount'),
+            lowest: min('amount'),
+            highest: max('amount'),
+            first: min('date'),
+            last: max('date'),
+            country: max('customer/country'),
+        }, orders);
+        expect(result).toEqual({
+            n: 4,
+            total: 39.5,
+            average: 39.5 / 3,
+            lowest: 4,
+            highest: 25.5,
+            first: new Date('2024-01-01'),
+            last: new Date('2024-01-03'),
+            country: 'NL',
+        });
+    });
+
+    it('empty results', () => {
+        expect(evaluateAggregates({ n: count(), total: sum('amount'), average: avg('amount'), lowest: min('amount'), groups: groupBy('status', count()) }, []))
+            .toEqual({ n: 0, total: 0, average: null, lowest: null, groups: {} });
+    });
+
+    it('groupBy', () => {
+        const result = evaluateAggregates({
+            byStatus: groupBy('status', count()),
+            byCountry: groupBy('customer/country', { n: count(), total: sum('amount'), byStatus: groupBy('status', count()) }),
+        }, orders);
+        expect(result).toEqual({
+            byStatus: { paid: 2, pending: 1, canceled: 1 },
+            byCountry: {
+                NL: { n: 2, total: 14, byStatus: { paid: 1, pending: 1 } },
+                BE: { n: 1, total: 25.5, byStatus: { paid: 1 } },
+                null: { n: 1, total: 0, byStatus: { canceled: 1 } },
+            },
+        });
+    });
+
+    it('validation and keys', () => {
+        expect(() => validateAggregates({})).toThrowError(/No aggregates/);
+        expect(() => validateAggregates({ x: { type: 'median' } as any })).toThrowError(/Unknown aggregate type/);
+        expect(() => validateAggregates({ x: sum('') })).toThrowError(/requires a key/);
+        expect(() => validateAggregates({ x: groupBy('status', {}) })).toThrowError(/No aggregates/);
+        expect(getAggregateKeys({ n: count(), total: sum('amount'), g: groupBy('status', { total: sum('amount'), last: max('date') }) })).toEqual(['amount', 'status', 'date']);
+    });
+
+    it('distinct values', () => {
+        expect(evaluateDistinct('status', orders)).toEqual([
+            { value: 'canceled', count: 1 },
+            { value: 'paid', count: 2 },
+            { value: 'pending', count: 1 },
+        ]);
+        expect(evaluateDistinct('customer/country', orders)).toEqual([{ value: 'BE', count: 1 }, { value: 'NL', count: 2 }]);
+        expect(evaluateDistinct('amount', orders).map(d => d.value)).toEqual([4, 10, 25.5]); // null is ignored
+        expect(evaluateDistinct('date', [...orders, { date: new Date('2024-01-01') }]).map(d => d.count)).toEqual([2, 1, 1]);
+        expect(evaluateDistinct('n', [{ n: 1 }, { n: BigInt(1) }, { n: 2 }])).toEqual([{ value: 1, count: 2 }, { value: 2, count: 1 }]);
+        expect(evaluateDistinct('tags', [{ tags: ['a', 'b'] }, { tags: ['a', 'b'] }, { tags: ['c'] }])).toEqual([
+            { value: ['a', 'b'], count: 2 },
+            { value: ['c'], count: 1 },
+        ]);
+        expect(evaluateDistinct('unknown', orders)).toEqual([]);
+    });
+});
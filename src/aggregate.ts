@@ -0,0 +1,244 @@
+import { PathInfo } from './path-info';
+import { compareSortValues } from './query';
+import { valuesAreEqual } from './utils';
+
+export type ValueAggregateType = 'sum' | 'avg' | 'min' | 'max';
+
+export interface CountAggregate {
+    type: 'count';
+}
+
+export interface ValueAggregate<Type extends ValueAggregateType = ValueAggregateType> {
+    type: Type;
+
+    /**
+     * key or relative path of the property to aggregate, eg `"amount"` or `"totals/amount"`
+     */
+    key: string;
+}
+
+export interface GroupByAggregate<Aggregated extends Aggregate | AggregateSpec = Aggregate | AggregateSpec> {
+    type: 'groupBy';
+
+    /**
+     * key or relative path of the property to group by
+     */
+    key: string;
+
+    /**
+     * aggregate (or object with named aggregates) to calculate for each group
+     */
+    aggregate: Aggregated;
+}
+
+export type Aggregate = CountAggregate | ValueAggregate | GroupByAggregate;
+
+/**
+ * Named aggregates to calculate, eg `{ total: sum('amount'), n: count() }`
+ */
+export type AggregateSpec = Record<string, Aggregate>;
+
+export type AggregateValue<A extends Aggregate | AggregateSpec> =
+    A extends CountAggregate ? number
+    : A extends ValueAggregate<'sum'> ? number
+    : A extends ValueAggregate<'avg'> ? number | null
+    : A extends ValueAggregate<'min' | 'max'> ? any
+    : A extends GroupByAggregate<infer Aggregated> ? Record<string, AggregateValue<Aggregated>>
+    : A extends AggregateSpec ? AggregateResult<A>
+    : never;
+
+/**
+ * Calculated values of named aggregates
+ */
+export type AggregateResult<Spec extends AggregateSpec> = { [Name in keyof Spec]: AggregateValue<Spec[Name]> };
+
+/**
+ * Counts the matching nodes
+ */
+export function count(): CountAggregate {
+    return { type: 'count' };
+}
+
+/**
+ * Sums the numeric values of a property, non-numeric values are ignored
+ * @param key key or relative path of the property
+ */
+export function sum(key: string): ValueAggregate<'sum'> {
+    return { type: 'sum', key };
+}
+
+/**
+ * Calculates the average of the numeric values of a property, non-numeric values are ignored.
+ * Results in `null` if there are no numeric values
+ * @param key key or relative path of the property
+ */
+export function avg(key: string): ValueAggregate<'avg'> {
+    return { type: 'avg', key };
+}
+
+/**
+ * Gets the lowest value of a property, using the same ordering as query sorting. Results in `null` if no node has the property
+ * @param key key or relative path of the property
+ */
+export function min(key: string): ValueAggregate<'min'> {
+    return { type: 'min', key };
+}
+
+/**
+ * Gets the highest value of a property, using the same ordering as query sorting. Results in `null` if no node has the property
+ * @param key key or relative path of the property
+ */
+export function max(key: string): ValueAggregate<'max'> {
+    return { type: 'max', key };
+}
+
+/**
+ * Groups the matching nodes by the value of a property, and calculates an aggregate for each group. Nodes that don't have
+ * the property are grouped under `"null"`
+ * @param key key or relative path of the property
+ * @param aggregate aggregate, or object with named aggregates to calculate for each group
+ * @example
+ * groupBy('status', count()) // { open: 3, closed: 12 }
+ * groupBy('status', { n: count(), total: sum('amount') }) // { open: { n: 3, total: 90 }, closed: { n: 12, total: 311 } }
+ */
+export function groupBy<Aggregated extends Aggregate | AggregateSpec>(key: string, aggregate: Aggregated): GroupByAggregate<Aggregated> {
+    return { type: 'groupBy', key, aggregate };
+}
+
+// Aggregates have a string type, the values of named aggregates are objects
+const isAggregate = (value: any): value is Aggregate => typeof value?.type === 'string';
+
+/**
+ * Checks if aggregates are valid, throws an error if not
+ */
+export function validateAggregates(aggregates: AggregateSpec | Aggregate) {
+    if (typeof aggregates !== 'object' || aggregates === null) {
+        throw new TypeError('aggregates must be an object');
+    }
+    if (isAggregate(aggregates)) {
+        const a = aggregates as Aggregate;
+        if (!['count', 'sum', 'avg', 'min', 'max', 'groupBy'].includes(a.type)) {
+            throw new Error(`Unknown aggregate type "${a.type}"`);
+        }
+        if (a.type !== 'count' && (typeof a.key !== 'string' || a.key.length === 0)) {
+            throw new TypeError(`${a.type} aggregate requires a key`);
+        }
+        if (a.type === 'groupBy') {
+            validateAggregates(a.aggregate);
+        }
+        return;
+    }
+    const names = Object.keys(aggregates);
+    if (names.length === 0) {
+        throw new Error('No aggregates given');
+    }
+    names.forEach(name => validateAggregates(aggregates[name]));
+}
+
+/**
+ * Gets the keys of all properties that are needed to calculate given aggregates
+ */
+export function getAggregateKeys(aggregates: AggregateSpec | Aggregate): string[] {
+    if (isAggregate(aggregates)) {
+        const a = aggregates as Aggregate;
+        if (a.type === 'count') { return []; }
+        const keys = a.type === 'groupBy' ? [a.key, ...getAggregateKeys(a.aggregate)] : [a.key];
+        return keys.filter((key, i) => keys.indexOf(key) === i);
+    }
+    const keys = Object.keys(aggregates).reduce((keys, name) => keys.concat(getAggregateKeys(aggregates[name])), [] as string[]);
+    return keys.filter((key, i) => keys.indexOf(key) === i);
+}
+
+const getPropertyValue = (value: any, key: string) => PathInfo.getPathKeys(key).reduce((val, key) => {
+    return val !== null && typeof val === 'object' ? val[key] ?? null : null;
+}, value);
+
+const getComparable = (value: any) => value instanceof Date ? value.getTime() : value;
+
+/**
+ * Reference evaluator that calculates aggregates over the values of all matching nodes. Used by `Api` implementations
+ * that don't support calculating aggregates natively
+ * @param aggregates named aggregates (or single aggregate) to calculate
+ * @param values values of all matching nodes
+ */
+export function evaluateAggregates(aggregates: AggregateSpec | Aggregate, values: any[]): any {
+    if (!isAggregate(aggregates)) {
+        return Object.keys(aggregates).reduce((result, name) => {
+            result[name] = evaluateAggregates(aggregates[name], values);
+            return result;
+        }, {} as Record<string, any>);
+    }
+    const a = aggregates as Aggregate;
+    switch (a.type) {
+        case 'count': {
+            return values.length;
+        }
+        case 'sum':
+        case 'avg': {
+            const numbers = values.map(value => getPropertyValue(value, a.key)).filter(value => typeof value === 'number');
+            const total = numbers.reduce((total, n) => total + n, 0);
+            return (a.type === 'sum' ? total : numbers.length === 0 ? null : total / numbers.length);
+        }
+        case 'min':
+        case 'max': {
+            return values.reduce((result, value) => {
+                const val = getPropertyValue(value, a.key);
+                if (val === null || typeof val === 'object' && !(val instanceof Date)) { return result; }
+                if (result === null) { return val; }
+                const isLower = getComparable(val) < getComparable(result);
+                return isLower === (a.type === 'min') && getComparable(val) != getComparable(result) ? val : result;
+            }, null);
+        }
+        case 'groupBy': {
+            const groups = values.reduce((groups, value) => {
+                const val = getPropertyValue(value, a.key);
+                const group = `${val instanceof Date ? val.toISOString() : val}`;
+                if (!(group in groups)) { groups[group] = []; }
+                groups[group].push(value);
+                return groups;
+            }, {} as Record<string, any[]>);
+            return Object.keys(groups).reduce((result, group) => {
+                result[group] = evaluateAggregates(a.aggregate, groups[group]);
+                return result;
+            }, {} as Record<string, any>);
+        }
+    }
+}
+
+/**
+ * Unique value of a property and the number of nodes that have it
+ */
+export interface DistinctValue<T = any> {
+    value: T;
+    count: number;
+}
+
+/**
+ * Reference evaluator that gets the unique values of a property with their counts. Nodes that don't have the property are
+ * ignored, dates are compared by time. Used by `Api` implementations that don't support getting distinct values natively
+ * @param key key or relative path of the property
+ * @param values values of all matching nodes
+ * @returns the unique values, sorted like query results would be sorted on them
+ */
+export function evaluateDistinct(key: string, values: any[]): DistinctValue[] {
+    const distinct = new Map<any, DistinctValue>();
+    const others = [] as DistinctValue[]; // objects and arrays, compared by value
+    values.forEach(value => {
+        const val = getPropertyValue(value, key);
+        if (val === null) { return; }
+        if (typeof val === 'object' && !(val instanceof Date)) {
+            const item = others.find(item => valuesAreEqual(item.value, val));
+            if (item) { item.count++; }
+            else { others.push({ value: val, count: 1 }); }
+            return;
+        }
+        // Numbers and bigints with the same value are the same
+        const id = val instanceof Date ? `date:${val.getTime()}`
+            : typeof val === 'bigint' ? Number.isSafeInteger(Number(val)) ? Number(val) : `bigint:${val}`
+                : val;
+        const item = distinct.get(id);
+        if (item) { item.count++; }
+        else { distinct.set(id, { value: val, count: 1 }); }
+    });
+    return [...distinct.values()].sort((a, b) => compareSortValues(a.value, b.value)).concat(others);
+}
@@ -1,6 +1,10 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { SimpleEventEmitter } from './simple-event-emitter';
+import { AggregateSpec, DistinctValue, evaluateAggregates, evaluateDistinct, getAggregateKeys } from './aggregate';
+import { matches, sortComparator } from './query';
+import { getQueryPlan, QueryPlan } from './query-plan';
 import type { TypedArrayLike } from './utils';
+import type { ISchemaCheckOptions, ISchemaViolation } from './schema';
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface IDataIndex {
@@ -61,14 +65,39 @@ export interface QueryFilter {
     compare: any;
 }
 
+/**
+ * Group of (nested) query filters that are combined with `and`, `or` or `not`
+ */
+export interface QueryFilterGroup {
+    /**
+     * How the filters are combined: `"and"` requires all filters to match, `"or"` at least one of them,
+     * `"not"` requires them not to match all (`not (a and b)`)
+     */
+    type: 'and' | 'or' | 'not';
+
+    /**
+     * Filters and nested filter groups
+     */
+    filters: Array<QueryFilter | QueryFilterGroup>;
+}
+
 export interface QueryOrder {
     key: string;
     ascending: boolean
 }
 
 export interface Query {
+    /**
+     * filters that all must match
+     */
     filters: QueryFilter[];
 
+    /**
+     * filter groups that all must match, in addition to `filters`. Api implementations that predate filter groups ignore
+     * them, see `supportsQueryFeature`
+     */
+    groups?: QueryFilterGroup[];
+
     /**
      * number of results to skip, useful for paging
      */
@@ -83,6 +112,62 @@ export interface Query {
      * sort order
      */
     order: QueryOrder[];
+
+    /**
+     * Keyset pagination: only return results sorted at or after this bound
+     */
+    start?: QueryBound;
+
+    /**
+     * Keyset pagination: only return results sorted at or before this bound
+     */
+    end?: QueryBound;
+}
+
+/**
+ * Query features that `Api` implementations might not support, see `Api.supportsQueryFeature`
+ */
+export type QueryFeature = 'bounds' | 'groups';
+
+/**
+ * Query utilities that evaluate filters and sort order exactly like the storage engine does. Can be used to execute
+ * queries on cached data, or to check if changed data matches a realtime query
+ * @example
+ * const isMatch = Query.matches(value, [{ key: 'name', op: 'like', compare: 'Ew*' }]);
+ * const sorted = values.sort(Query.sortComparator([{ key: 'age', ascending: false }]));
+ */
+export const Query = {
+    /**
+     * Checks if a node's value matches all given filters and filter groups. Only object values can match
+     */
+    matches,
+
+    /**
+     * Gets a function that compares node values by given sort order, to be used with `Array.sort`
+     */
+    sortComparator,
+};
+
+/**
+ * Position in sorted query results used for keyset pagination. Storage engines can use it to seek in an index directly,
+ * instead of skipping results
+ */
+export interface QueryBound {
+    /**
+     * Values of the sort keys (`order`) of the query, in the same order. May contain less values than there are sort keys
+     */
+    values: any[];
+
+    /**
+     * Path of the node at the bound, used to resolve ties between results with the same values. Results with the same values
+     * are sorted by path
+     */
+    path?: string;
+
+    /**
+     * Whether the node at the bound (or all nodes with the same values if no path is given) is included in the results
+     */
+    inclusive: boolean;
 }
 
 export interface QueryOptions {
@@ -116,6 +201,11 @@ export interface QueryOptions {
     /** How to handle results from cache */
     cache_mode?: 'allow'|'bypass'|'force'
 
+    /**
+     * Signal to cancel the query with, the returned promise rejects with an `AbortError` once aborted
+     */
+    signal?: AbortSignal;
+
     /**
      * callback function for events
      */
@@ -258,6 +348,25 @@ export type ValueMutation = {
  */
 export type ValueChange = { path: string, type: 'set'|'update', previous: any, value: any, context: any }
 
+/**
+ * Single write operation of a batch: `set` overwrites the value of `path`, `update` merges the properties of `value` into it.
+ * Removing a node is done by setting its value to `null`
+ */
+export type BatchOperation = { type: 'set'|'update', path: string, value: any };
+
+/**
+ * Precondition for a write operation: if the node at `path` does not meet it, the operation must be rejected with a `ConflictError`.
+ * Can be passed in the `conditions` option of `set`, `update`, `batch` and `transaction`, if the implementation supports them
+ * (see `Api.supportsWriteConditions`)
+ */
+export type WriteCondition = {
+    path: string,
+    /** the node (or any of its descendants) must not have been changed since this cursor */
+    ifCursor?: string,
+    /** the node's current value must be equal to this (serialized) value, `null` if the node must not exist */
+    ifMatch?: any
+};
+
 export type TransactionLogFilter = ({
     /**
      * cursor to use
@@ -302,14 +411,37 @@ export abstract class Api extends SimpleEventEmitter {
 
     unsubscribe(path: string, event?: string, callback?: EventSubscriptionCallback): void|Promise<void> { throw new NotImplementedError('unsubscribe'); }
 
+    /**
+     * @param options `context` to use, and optional `conditions` that must be met (see `WriteCondition`)
+     */
     update(path: string, updates: any, options?: any): Promise<{ cursor?: string }> { throw new NotImplementedError('update'); }
 
+    /**
+     * @param options `context` to use, and optional `conditions` that must be met (see `WriteCondition`)
+     */
     set(path: string, value: any, options?: any): Promise<{ cursor?: string }> { throw new NotImplementedError('set'); }
 
+    /**
+     * Performs multiple write operations as one atomic operation: either all operations are applied, or none.
+     * Operations are applied in the given order, share a single cursor and cause one `mutations` event per subscription
+     * @param operations set and update operations to perform
+     * @param options `context` to use, and optional `conditions` that must be met (see `WriteCondition`)
+     */
+    batch(operations: BatchOperation[], options?: any): Promise<{ cursor?: string }> { throw new NotImplementedError('batch'); }
+
     get(path: string, options?: any): Promise<{ value: any, context: any, cursor?: string }> { throw new NotImplementedError('get'); }
 
+    /**
+     * @param options `context` to use, and optional `conditions` that must be met when the new value is written (see `WriteCondition`)
+     */
     transaction(path: string, callback: (val: any) => any, options?: any): Promise<{ cursor?: string }> { throw new NotImplementedError('transaction'); }
 
+    /**
+     * Checks if the implementation checks the `conditions` option of `set`, `update`, `batch` and `transaction`. Implementations
+     * that predate write conditions don't override this method, they would ignore the conditions and write unconditionally
+     */
+    supportsWriteConditions(): boolean { return false; }
+
     exists(path: string): Promise<boolean> { throw new NotImplementedError('exists'); }
 
     query(path: string, query: Query, options?: QueryOptions): Promise<{
@@ -318,6 +450,60 @@ export abstract class Api extends SimpleEventEmitter {
         stop(): Promise<void>;
     }> { throw new NotImplementedError('query'); }
 
+    /**
+     * Checks if the implementation supports a query feature that was added to `Query` later. Implementations that predate
+     * a feature don't override this method, so they are treated as not supporting it
+     * @param feature `"bounds"`: keyset pagination with `start` and `end`, `"groups"`: filter groups
+     */
+    supportsQueryFeature(feature: QueryFeature): boolean { return false; }
+
+    /**
+     * Calculates aggregates over the results of a query. The default implementation executes the query and calculates the
+     * aggregates with the reference evaluator, override it to calculate aggregates natively (eg. using indexes)
+     * @param path path of the queried collection
+     * @param query query to aggregate the results of
+     * @param aggregates named aggregates to calculate
+     * @param options optional `signal` to cancel the operation with
+     */
+    async aggregate(path: string, query: Query, aggregates: AggregateSpec, options?: { signal?: AbortSignal }): Promise<Record<string, any>> {
+        const keys = getAggregateKeys(aggregates);
+        const loadValues = keys.length > 0; // No need to load values if only counting
+        const { results } = await this.query(path, query, { snapshots: loadValues, include: loadValues ? keys : undefined, monitor: false, signal: options?.signal });
+        const values = loadValues ? (results as Array<{ path: string, val: any }>).map(result => result.val) : results.map((): any => null);
+        return evaluateAggregates(aggregates, values);
+    }
+
+    /**
+     * Gets the unique values of a property of the results of a query, with their counts. The default implementation executes
+     * the query and gets the values with the reference evaluator, override it to get them natively (eg. using indexes)
+     * @param path path of the queried collection
+     * @param query query to get the distinct values of
+     * @param key key or relative path of the property
+     * @param options optional `signal` to cancel the operation with
+     */
+    async distinct(path: string, query: Query, key: string, options?: { signal?: AbortSignal }): Promise<DistinctValue[]> {
+        const { results } = await this.query(path, query, { snapshots: true, include: [key], monitor: false, signal: options?.signal });
+        return evaluateDistinct(key, (results as Array<{ path: string, val: any }>).map(result => result.val));
+    }
+
+    /**
+     * Determines how a query would be executed, without executing it. The default implementation plans the query with
+     * the available indexes like the storage engine does, override it if the engine plans queries differently
+     * @param path path of the queried collection
+     * @param query query to explain
+     */
+    async explain(path: string, query: Query): Promise<QueryPlan> {
+        let indexes: IDataIndex[];
+        try {
+            indexes = await this.getIndexes();
+        }
+        catch (err) {
+            if (!(err instanceof NotImplementedError)) { throw err; }
+            indexes = []; // No index support
+        }
+        return getQueryPlan(path, query, indexes);
+    }
+
     reflect(path: string, type: 'children', args: any): Promise<IReflectionChildrenInfo>;
     reflect(path: string, type: 'info', args: any): Promise<IReflectionNodeInfo>;
     reflect(path: string, type: ReflectionType, args: any): Promise<any>;
@@ -340,7 +526,7 @@ export abstract class Api extends SimpleEventEmitter {
 
     getSchemas(): Promise<IAceBaseSchemaInfo[]> { throw new NotImplementedError('getSchemas'); }
 
-    validateSchema(path: string, value: any, isUpdate: boolean): Promise<{ ok: boolean, reason?: string, warning?: string }> { throw new NotImplementedError('validateSchema'); }
+    validateSchema(path: string, value: any, isUpdate: boolean, options?: ISchemaCheckOptions): Promise<{ ok: boolean, reason?: string, warning?: string, violations?: ISchemaViolation[] }> { throw new NotImplementedError('validateSchema'); }
 
     getMutations(filter: ({ cursor: string } | { timestamp: number }) & { path?:string, for?: Array<{ path: string, events: string[] }> }): Promise<{ used_cursor: string | null, new_cursor: string, mutations: ValueMutation[] }> { throw new NotImplementedError('getMutations'); }
 
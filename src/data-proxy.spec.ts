@@ -0,0 +1,72 @@
+import { MemoryDb } from './memory-api';
+
+const wait = (ms = 10) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('LiveDataProxy', () => {
+    let db: MemoryDb;
+    beforeEach(() => {
+        db = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true });
+    });
+
+    it('writes local changes to the database', async () => {
+        const ref = db.ref('chats/chat1');
+        const proxy = await ref.proxy<any>({ defaultValue: { title: 'Chat', messages: {} } });
+        expect(proxy.hasValue).toBeTrue();
+        expect((await ref.get()).val()).toEqual({ title: 'Chat', messages: {} });
+
+        const chat = proxy.value;
+        chat.title = 'Changed';
+        chat.messages.msg1 = { text: 'Hi' };
+        chat.tags = ['a'];
+        chat.tags.push('b');
+        await wait();
+        expect((await ref.get()).val()).toEqual({ title: 'Changed', messages: { msg1: { text: 'Hi' } }, tags: ['a', 'b'] });
+
+        delete chat.messages.msg1;
+        await wait();
+        expect(await ref.child('messages/msg1').exists()).toBeFalse();
+        await proxy.destroy();
+    });
+
+    it('applies remote changes to its value', async () => {
+        const ref = db.ref('chats/chat1');
+        await ref.set({ title: 'Chat', messages: { msg1: { text: 'Hi' } } });
+        const proxy = await ref.proxy();
+        const chat = proxy.value;
+
+        const changes: any[] = [];
+        chat.onChanged((value: any, previous: any, isRemote: boolean) => {
+            changes.push({ title: value.title, isRemote });
+        });
+
+        await ref.update({ title: 'Remote' });
+        await ref.child('messages/msg2').set({ text: 'Hello' });
+        await wait();
+        expect(chat.title).toBe('Remote');
+        expect(chat.messages.msg2.text).toBe('Hello');
+        expect(changes.length).toBe(2);
+        expect(changes[0]).toEqual({ title: 'Remote', isRemote: true });
+
+        await ref.child('messages/msg1').remove();
+        expect(chat.messages.msg1).toBeUndefined();
+        await proxy.destroy();
+    });
+
+    it('transactions', async () => {
+        const ref = db.ref('counter');
+        const proxy = await ref.proxy<any>({ defaultValue: { value: 1 } });
+        const counter = proxy.value;
+
+        let tx = await counter.startTransaction();
+        counter.value++;
+        await tx.commit();
+        expect((await ref.get()).val()).toEqual({ value: 2 });
+
+        tx = await counter.startTransaction();
+        counter.value = 10;
+        tx.rollback();
+        expect(counter.value).toBe(2);
+        expect((await ref.get()).val()).toEqual({ value: 2 });
+        await proxy.destroy();
+    });
+});
@@ -1,4 +1,24 @@
 // import { DataReference } from './data-reference';
+import { DataSnapshotsArray } from './data-reference';
+import { DataSnapshot, MutationsDataSnapshot } from './data-snapshot';
+import type { Query, QueryOptions } from './api';
+import { MemoryApi, MemoryDb } from './memory-api';
+import { ConflictError } from './errors';
+import { count, groupBy, sum } from './aggregate';
+import { PathReference } from './path-reference';
+
+const wait = (ms = 10) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * MemoryApi that ignores query features added later, like Api implementations that predate them
+ */
+class LegacyMemoryApi extends MemoryApi {
+    supportsQueryFeature() { return false; }
+    supportsWriteConditions() { return false; }
+    query(path: string, query: Query, options?: QueryOptions) {
+        return super.query(path, { ...query, groups: undefined, start: undefined, end: undefined }, options);
+    }
+}
 
 describe('DataReference', () => {
     it('type checks', async () => {
@@ -25,3 +45,901 @@ describe('DataReference', () => {
         // });
     });
 });
+
+describe('DataReference (MemoryApi)', () => {
+    let db: MemoryDb;
+    beforeEach(() => {
+        db = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true });
+    });
+
+    it('value events', async () => {
+        const ref = db.ref('chats/chat1/title');
+        const values: any[] = [];
+        const subscription = ref.on('value', snap => { values.push(snap.val()); });
+        await wait();
+        await ref.set('Hello');
+        await db.ref('chats/chat1').update({ title: 'Hi', other: 'value' });
+        await db.ref('chats/chat1').update({ other: 'changed' }); // Must not fire
+        await db.ref('chats').remove();
+        subscription.stop();
+        await ref.set('Stopped');
+        expect(values).toEqual([null, 'Hello', 'Hi', null]);
+    });
+
+    it('child events', async () => {
+        const ref = db.ref('messages');
+        const events: string[] = [];
+        ref.on('child_added').subscribe(snap => events.push(`added:${snap.key}`));
+        ref.on('child_changed').subscribe(snap => events.push(`changed:${snap.key}=${snap.val().text}`));
+        ref.on('child_removed').subscribe(snap => events.push(`removed:${snap.key}=${snap.val().text}`));
+        ref.on('notify_child_added').subscribe(ref => events.push(`notify_added:${ref.key}`));
+
+        await ref.child('msg1').set({ text: 'Hi' });
+        await ref.update({ msg2: { text: 'Hello' } });
+        await ref.child('msg1/text').set('Hi!');
+        await ref.child('msg2').remove();
+        expect(events).toEqual(['added:msg1', 'notify_added:msg1', 'added:msg2', 'notify_added:msg2', 'changed:msg1=Hi!', 'removed:msg2=Hello']);
+    });
+
+    it('wildcard events', async () => {
+        const events: string[] = [];
+        db.ref('users/$uid/posts').on('child_added').subscribe(snap => {
+            events.push(`${snap.ref.vars.uid}:${snap.key}`);
+        });
+        await db.ref('users/ewout/posts/post1').set({ title: 'Post 1' });
+        await db.ref('users').update({ pete: { posts: { post2: { title: 'Post 2' } } } });
+        expect(events).toEqual(['ewout:post1', 'pete:post2']);
+    });
+
+    it('mutated and mutations events', async () => {
+        const ref = db.ref('chats/chat1');
+        await ref.set({ title: 'Chat', messages: {} });
+        const mutated: string[] = [];
+        let mutations: any[];
+        ref.on('mutated').subscribe(snap => mutated.push(`${snap.ref.path}=${JSON.stringify(snap.val())}`));
+        ref.on('mutations').subscribe((snap: MutationsDataSnapshot) => { mutations = snap.val(false); });
+
+        await ref.update({ title: 'New title', 'messages/msg1': null, members: { ewout: true } });
+        expect(mutated).toEqual(['chats/chat1/title="New title"', 'chats/chat1/members={"ewout":true}']);
+        expect(mutations).toEqual([
+            { target: ['title'], prev: 'Chat', val: 'New title' },
+            { target: ['members'], prev: null, val: { ewout: true } },
+        ]);
+
+        await db.ref('chats').update({ chat1: { title: 'Replaced' } });
+        expect(mutations).toEqual([{ target: [], prev: { title: 'New title', messages: {}, members: { ewout: true } }, val: { title: 'Replaced' } }]);
+    });
+
+    it('event context and cursor', async () => {
+        const ref = db.ref('counter');
+        let context: any;
+        ref.on('value', false).subscribe(snap => { context = snap.context(); });
+        await ref.context({ source: 'test' }).set(1);
+        expect(context.source).toBe('test');
+        expect(typeof context.acebase_cursor).toBe('string');
+        expect(ref.cursor).toBe(context.acebase_cursor);
+    });
+
+    it('multi-path updates', async () => {
+        await db.ref('users/u1').set({ name: 'Ewout', posts: 1 });
+        await db.ref('posts/p1').set({ title: 'Post', author: { id: 'u1', name: 'Ewout' }, tags: ['a', 'b'] });
+
+        let mutations: any[], events = 0;
+        db.ref('').on('mutations').subscribe((snap: MutationsDataSnapshot) => { mutations = snap.val(false); events++; });
+        const ref = await db.ref('').update({
+            'users/u1/name': 'Ewout Stortenbeker',
+            'posts/p1/author/name': 'Ewout Stortenbeker',
+            'posts/p1/tags[1]': 'c',
+            'users/u1/posts': null,
+        });
+        expect(typeof ref.cursor).toBe('string');
+        expect(events).toBe(1);
+        expect(mutations).toEqual([
+            { target: ['users', 'u1', 'name'], prev: 'Ewout', val: 'Ewout Stortenbeker' },
+            { target: ['posts', 'p1', 'author', 'name'], prev: 'Ewout', val: 'Ewout Stortenbeker' },
+            { target: ['posts', 'p1', 'tags', 1], prev: 'b', val: 'c' },
+            { target: ['users', 'u1', 'posts'], prev: 1, val: null },
+        ]);
+        expect((await db.ref('users/u1').get()).val()).toEqual({ name: 'Ewout Stortenbeker' });
+        expect((await db.ref('posts/p1').get()).val()).toEqual({ title: 'Post', author: { id: 'u1', name: 'Ewout Stortenbeker' }, tags: ['a', 'c'] });
+
+        // Overlapping paths
+        await expectAsync(db.ref('').update({ 'users/u1': {}, 'users/u1/name': 'Ewout' })).toBeRejectedWithError(/overlapping/);
+
+        // Failing schema check must not apply any update
+        await db.schema.set('users/$uid', { name: 'string' });
+        await expectAsync(db.ref('').update({ 'posts/p1/title': 'Changed', 'users/u1/name': 35 })).toBeRejected();
+        expect((await db.ref('posts/p1/title').get()).val()).toBe('Post');
+        expect(events).toBe(1);
+    });
+
+    it('multi-path updates use type mappings', async () => {
+        class User {
+            constructor(public name: string) {}
+            static create(snap: DataSnapshot) { return new User(snap.val().fullName); }
+            serialize() { return { fullName: this.name }; }
+        }
+        db.types.bind('users', User);
+        await db.ref('').update({ 'users/u1': new User('Ewout'), 'stats/users': 1 });
+        expect((await db.api.get('users/u1')).value).toEqual({ fullName: 'Ewout' });
+        expect((await db.ref('users/u1').get()).val()).toEqual(new User('Ewout'));
+    });
+
+    it('write batches', async () => {
+        await db.ref('invites/pete').set({ from: 'ewout' });
+        let mutations: any[], events = 0;
+        db.ref('').on('mutations').subscribe((snap: MutationsDataSnapshot) => { mutations = snap.val(false); events++; });
+
+        const batch = db.batch();
+        batch.set(db.ref('users/pete'), { name: 'Pete', age: 30 });
+        batch.update(db.ref('users/pete'), { age: 31 });
+        batch.update(db.ref('stats').context({ source: 'import' }), { users: 1 });
+        batch.remove(db.ref('invites/pete'));
+        expect(batch.size).toBe(4);
+        expect(() => batch.set(db.ref('users/*'), {})).toThrowError(/wildcard/);
+        expect(() => batch.remove(db.root)).toThrowError(/root/);
+
+        const cursor = await batch.commit();
+        expect(typeof cursor).toBe('string');
+        expect(events).toBe(1);
+        expect(mutations).toEqual([
+            { target: ['users', 'pete'], prev: null, val: { name: 'Pete', age: 31 } },
+            { target: ['stats', 'users'], prev: null, val: 1 },
+            { target: ['invites', 'pete'], prev: { from: 'ewout' }, val: null },
+        ]);
+        expect((await db.ref('').get()).val()).toEqual({ users: { pete: { name: 'Pete', age: 31 } }, stats: { users: 1 }, invites: {} });
+        const { mutations: logged } = await db.ref('').getMutations(new Date(0));
+        expect(logged[logged.length - 1].context).toEqual({ source: 'import', acebase_cursor: cursor });
+
+        await expectAsync(batch.commit()).toBeRejectedWithError(/already been committed/);
+        expect(() => batch.set(db.ref('users/ewout'), {})).toThrowError(/already been committed/);
+
+        // Failing schema check must not apply any operation
+        await db.schema.set('users/$uid', { name: 'string', age: 'number' });
+        const failing = db.batch()
+            .set(db.ref('stats/users'), 2)
+            .update(db.ref('users/pete'), { age: 'old' });
+        await expectAsync(failing.commit()).toBeRejected();
+        expect((await db.ref('stats/users').get()).val()).toBe(1);
+    });
+
+    it('conditional writes', async () => {
+        const ref = db.ref('accounts/a1');
+        await ref.set({ balance: 100, owner: 'ewout' });
+        const snap = await ref.get();
+        const cursor = snap.context().acebase_cursor;
+        expect(typeof cursor).toBe('string');
+
+        await ref.update({ balance: 90 }, { ifCursor: cursor });
+        expect(ref.cursor > cursor).toBeTrue();
+
+        // Changed since cursor (by the previous update)
+        let error: any;
+        try { await ref.set({ balance: 50, owner: 'ewout' }, { ifCursor: cursor }); }
+        catch (err) { error = err; }
+        expect(error).toBeInstanceOf(ConflictError);
+        expect(error.path).toBe('accounts/a1');
+
+        // Changes to descendants and ancestors are conflicts, changes to other nodes are not
+        const next = ref.cursor;
+        await db.ref('accounts/a2').set({ balance: 10 });
+        await expectAsync(ref.update({ balance: 80 }, { ifCursor: next })).toBeResolved();
+        await ref.child('owner').set('pete');
+        await expectAsync(ref.update({ balance: 70 }, { ifCursor: next })).toBeRejectedWithError(ConflictError);
+        await db.ref('accounts').update({ a1: { balance: 0 } });
+        await expectAsync(ref.child('balance').set(1, { ifCursor: ref.cursor })).toBeRejectedWithError(ConflictError);
+
+        // Match values
+        await expectAsync(ref.child('balance').set(1, { ifMatch: 5 })).toBeRejectedWithError(ConflictError);
+        await expectAsync(ref.child('balance').set(1, { ifMatch: 0 })).toBeResolved();
+        await expectAsync(ref.update({ balance: 2 }, { ifMatch: { balance: 1 } })).toBeResolved();
+        await expectAsync(db.ref('accounts/a3').set({ balance: 0 }, { ifMatch: null })).toBeResolved();
+        await expectAsync(db.ref('accounts/a3').set({ balance: 0 }, { ifMatch: null })).toBeRejectedWithError(ConflictError);
+        expect((await ref.get()).val()).toEqual({ balance: 2 });
+
+        // Batches and transactions
+        const batch = db.batch()
+            .update(ref, { balance: 3 }, { ifMatch: { balance: 2 } })
+            .remove(db.ref('accounts/a3'), { ifMatch: { balance: 1 } });
+        await expectAsync(batch.commit()).toBeRejectedWithError(ConflictError);
+        expect((await ref.get()).val()).toEqual({ balance: 2 });
+        await expectAsync(ref.transaction(snap => ({ balance: snap.val().balance + 1 }), { ifCursor: next })).toBeRejectedWithError(ConflictError);
+        await ref.transaction(snap => ({ balance: snap.val().balance + 1 }), { ifMatch: { balance: 2 } });
+        expect((await ref.get()).val()).toEqual({ balance: 3 });
+
+        // Databases that don't support write conditions would write unconditionally
+        const legacy = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true }, new LegacyMemoryApi());
+        const legacyRef = legacy.ref('accounts/a1');
+        await legacyRef.set({ balance: 100 });
+        await expectAsync(legacyRef.set({ balance: 0 }, { ifCursor: legacyRef.cursor })).toBeRejectedWithError(/does not support write conditions/);
+        await expectAsync(legacyRef.update({ balance: 0 }, { ifMatch: { balance: 100 } })).toBeRejectedWithError(/does not support write conditions/);
+        await expectAsync(legacyRef.transaction(() => ({ balance: 0 }), { ifMatch: { balance: 100 } })).toBeRejectedWithError(/does not support write conditions/);
+        expect(() => legacy.batch().remove(legacyRef, { ifMatch: null })).toThrowError(/does not support write conditions/);
+        await legacyRef.update({ balance: 50 }); // Unconditional writes still work
+        expect((await legacyRef.get()).val()).toEqual({ balance: 50 });
+    });
+
+    it('transaction', async () => {
+        const ref = db.ref('counter');
+        await ref.set(1);
+        await ref.transaction(snap => snap.val() + 1);
+        expect((await ref.get()).val()).toBe(2);
+        await ref.transaction(() => undefined); // canceled
+        expect((await ref.get()).val()).toBe(2);
+
+        // Conflicting callbacks are retried a limited number of times
+        let attempts = 0;
+        const conflicting = ref.transaction(async snap => {
+            attempts++;
+            await db.ref('counter').set(snap.val() + 10); // changes the value while the callback runs
+            return snap.val() + 1;
+        });
+        await expectAsync(conflicting).toBeRejectedWithError(ConflictError);
+        expect(attempts).toBe(10);
+    });
+
+    it('push, count and forEach', async () => {
+        const ref = db.ref('items');
+        await ref.push({ n: 1 });
+        await ref.push({ n: 2 });
+        await ref.push({ n: 3 });
+        expect(await ref.count()).toBe(3);
+
+        const values: number[] = [];
+        const result = await ref.forEach(snap => {
+            values.push(snap.val().n);
+            return values.length < 2;
+        });
+        expect(values).toEqual([1, 2]);
+        expect(result).toEqual({ canceled: true, total: 3, processed: 2 });
+    });
+
+    it('abort signals', async () => {
+        const ref = db.ref('aborted');
+        await ref.set({ a: { n: 1 }, b: { n: 2 }, c: { n: 3 } });
+
+        const aborted = new AbortController();
+        aborted.abort();
+        await expectAsync(ref.get({ signal: aborted.signal })).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+        await expectAsync(ref.query().filter('n', '>', 1).get({ signal: aborted.signal })).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+
+        // Abort forEach halfway
+        const controller = new AbortController();
+        const keys: string[] = [];
+        const forEach = ref.forEach({ signal: controller.signal }, snap => {
+            keys.push(snap.key);
+            if (keys.length === 2) { controller.abort(); }
+        });
+        await expectAsync(forEach).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+        expect(keys).toEqual(['a', 'b']);
+
+        // Abort export while writing
+        const exportController = new AbortController();
+        let output = '';
+        const exported = ref.export(str => {
+            output += str;
+            if (output.length > 10) { exportController.abort(); }
+        }, { signal: exportController.signal });
+        await expectAsync(exported).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+        expect(output.length).toBeLessThan(JSON.stringify({ a: { n: 1 }, b: { n: 2 }, c: { n: 3 } }).length);
+
+        // Abort import before anything is stored
+        const importController = new AbortController();
+        const imported = db.ref('imported').import(async () => {
+            importController.abort();
+            return '{"x":1}';
+        }, { signal: importController.signal });
+        await expectAsync(imported).toBeRejectedWith(jasmine.objectContaining({ name: 'AbortError' }));
+        expect((await db.ref('imported').get()).exists()).toBeFalse();
+
+        // Custom abort reasons are used as rejection error
+        const reasonController = new AbortController();
+        reasonController.abort(new Error('Gone'));
+        await expectAsync(ref.get({ signal: reasonController.signal })).toBeRejectedWithError('Gone');
+    });
+
+    it('forEach with concurrency', async () => {
+        const ref = db.ref('concurrent');
+        const items = {} as Record<string, any>;
+        for (let i = 0; i < 20; i++) {
+            items[`item${i.toString().padStart(2, '0')}`] = { index: i };
+        }
+        await ref.set(items);
+
+        let running = 0, maxRunning = 0;
+        const seen: number[] = [];
+        const result = await ref.forEach({ concurrency: 4 }, async snap => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await wait(snap.val().index % 3);
+            seen.push(snap.val().index);
+            running--;
+        });
+        expect(result).toEqual({ canceled: false, total: 20, processed: 20 });
+        expect(maxRunning).toBe(4);
+        expect(seen.sort((a, b) => a - b)).toEqual(Object.values(items).map(item => item.index));
+
+        // Cancel: children loaded by other workers in the meantime are not processed
+        let called = 0;
+        const canceled = await db.query('concurrent').filter('index', '<', 15).forEach({ concurrency: 3 }, async snap => {
+            called++;
+            await wait(1);
+            return snap.val().index === 4 ? false : undefined;
+        });
+        expect(canceled.canceled).toBeTrue();
+        expect(canceled.total).toBe(15);
+        expect(canceled.processed).toBe(called);
+        expect(called).toBeLessThan(15);
+
+        // Invalid concurrency is rejected before any data is loaded
+        const reflect = spyOn(db.api, 'reflect').and.callThrough();
+        const query = spyOn(db.api, 'query').and.callThrough();
+        await expectAsync(ref.forEach({ concurrency: 0 }, () => undefined)).toBeRejectedWithError(TypeError);
+        await expectAsync(db.query('concurrent').forEach({ concurrency: 1.5 }, () => undefined)).toBeRejectedWithError(TypeError);
+        expect(reflect).not.toHaveBeenCalled();
+        expect(query).not.toHaveBeenCalled();
+    });
+
+    it('paged iterators', async () => {
+        const ref = db.ref('iterated');
+        const books = {} as Record<string, any>;
+        for (let i = 0; i < 25; i++) {
+            books[`book${i.toString().padStart(2, '0')}`] = { title: `Book ${i}`, pages: i * 10 };
+        }
+        await ref.set(books);
+        const reflect = spyOn(db.api, 'reflect').and.callThrough();
+
+        const keys: string[] = [];
+        for await (const snap of ref.iterate({ pageSize: 10, include: ['title'] })) {
+            expect(snap.val()).toEqual({ title: books[snap.key].title });
+            keys.push(snap.key);
+        }
+        expect(keys).toEqual(Object.keys(books));
+        expect(reflect.calls.allArgs().map(args => args[2])).toEqual([
+            { limit: 10, from: undefined },
+            { limit: 10, from: 'book09' },
+            { limit: 10, from: 'book19' },
+        ]);
+
+        // Resume after a key
+        const resumed: string[] = [];
+        for await (const snap of ref.iterate({ pageSize: 4, from: 'book20' })) {
+            resumed.push(snap.key);
+        }
+        expect(resumed).toEqual(['book21', 'book22', 'book23', 'book24']);
+
+        // Queries page with skip/take, respecting the query's own skip and take
+        const query = db.query('iterated').filter('pages', '>=', 50).sort('pages', false).skip(2).take(12);
+        const query_spy = spyOn(db.api, 'query').and.callThrough();
+        const pages: number[] = [];
+        for await (const snap of query.iterate({ pageSize: 5 })) {
+            pages.push(snap.val().pages);
+        }
+        expect(pages).toEqual([220, 210, 200, 190, 180, 170, 160, 150, 140, 130, 120, 110]);
+        expect(query_spy.calls.allArgs().map(args => [args[1].skip, args[1].take, args[1].start?.values])).toEqual([[2, 5, undefined], [0, 5, [180]], [0, 2, [130]]]);
+
+        const all: string[] = [];
+        for await (const snap of db.query('iterated').filter('pages', '<', 30)) {
+            all.push(snap.key);
+        }
+        expect(all.sort()).toEqual(['book00', 'book01', 'book02']);
+
+        // Pages of unordered results don't overlap, regardless of insertion order
+        const unordered = db.ref('unordered');
+        for (const key of ['c', 'a', 'b', 'd']) {
+            await unordered.child(key).set({ key });
+        }
+        const unorderedKeys: string[] = [];
+        for await (const snap of db.query('unordered').iterate({ pageSize: 2 })) {
+            unorderedKeys.push(snap.key);
+        }
+        expect(unorderedKeys).toEqual(['a', 'b', 'c', 'd']);
+
+        // Databases without keyset pagination support are paged with skip and take
+        const legacy = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true }, new LegacyMemoryApi());
+        await legacy.ref('iterated').set(books);
+        const legacyPages: number[] = [];
+        for await (const snap of legacy.query('iterated').filter('pages', '>=', 50).sort('pages', false).skip(2).take(12).iterate({ pageSize: 5 })) {
+            legacyPages.push(snap.val().pages);
+        }
+        expect(legacyPages).toEqual(pages);
+        const legacyKeys: string[] = [];
+        for await (const snap of legacy.query('iterated').sort('pages').iterate({ pageSize: 10 })) {
+            legacyKeys.push(snap.key);
+        }
+        expect(legacyKeys).toEqual(Object.keys(books));
+        await expectAsync(legacy.query('iterated').sort('pages').startAfter([50]).get()).toBeRejectedWithError(/does not support keyset pagination/);
+        const legacyPage = await legacy.query('iterated').sort('pages').take(5).get();
+        expect(legacyPage.length).toBe(5);
+        expect(legacyPage.nextPageCursor).toBeUndefined(); // Can't be used on this database
+
+        await expectAsync(db.query('iterated').take(-1).iterate().next()).toBeRejectedWithError(TypeError);
+    });
+
+    it('aggregate queries', async () => {
+        await db.ref('orders').set({
+            o1: { status: 'paid', amount: 10 },
+            o2: { status: 'paid', amount: 20 },
+            o3: { status: 'pending', amount: 5 },
+            o4: { status: 'canceled', amount: 100 },
+        });
+        const query = db.query('orders').filter('status', '!=', 'canceled');
+        const stats = await query.aggregate({ total: sum('amount'), n: count(), byStatus: groupBy('status', count()) });
+        expect(stats).toEqual({ total: 35, n: 3, byStatus: { paid: 2, pending: 1 } });
+        expect(await query.count()).toBe(3);
+        expect(await db.query('orders').take(2).count()).toBe(2);
+    });
+
+    it('distinct values', async () => {
+        await db.ref('users').set({
+            anne: { posts: { p1: { category: 'food', likes: 3 }, p2: { category: 'travel', likes: 10 } } },
+            bob: { posts: { p3: { category: 'food', likes: 8 }, p4: { likes: 1 } } },
+        });
+        expect(await db.query('users/*/posts').distinct('category')).toEqual([{ value: 'food', count: 2 }, { value: 'travel', count: 1 }]);
+        expect(await db.query('users/*/posts').filter('likes', '>', 5).distinct('category')).toEqual([{ value: 'food', count: 1 }, { value: 'travel', count: 1 }]);
+        expect(await db.query('users/anne/posts').distinct('likes')).toEqual([{ value: 3, count: 1 }, { value: 10, count: 1 }]);
+        await expectAsync(db.query('users').distinct('')).toBeRejectedWithError(TypeError);
+    });
+
+    it('or and not filter groups', async () => {
+        const ref = db.ref('tickets');
+        await ref.set({
+            t1: { status: 'open', assignee: 'anne', priority: 1 },
+            t2: { status: 'closed', assignee: 'ewout', priority: 5 },
+            t3: { status: 'closed', assignee: 'anne', priority: 4 },
+            t4: { status: 'open', assignee: 'ewout', priority: 5 },
+        });
+        const keys = async (query: ReturnType<typeof db.query>) => (await query.find()).map(ref => ref.key).sort();
+
+        expect(await keys(db.query('tickets').or(q => q.filter('status', '==', 'open').filter('assignee', '==', 'ewout')))).toEqual(['t1', 't2', 't4']);
+        expect(await keys(db.query('tickets').not(q => q.filter('status', '==', 'closed').filter('assignee', '==', 'anne')))).toEqual(['t1', 't2', 't4']);
+        expect(await keys(db.query('tickets')
+            .filter('priority', '>', 1)
+            .or(q => q
+                .and(q => q.filter('status', '==', 'closed').filter('priority', '<', 5))
+                .not(q => q.filter('assignee', '==', 'ewout'))
+                .filter('status', '==', 'open'),
+            ),
+        )).toEqual(['t3', 't4']);
+
+        expect(() => db.query('tickets').filter('status', 'equals' as any, 'open')).toThrowError(/Invalid query operator/);
+        expect(() => db.query('tickets').or(q => q.filter('status', '=' as any, 'open'))).toThrowError(/Invalid query operator/);
+        expect(() => db.query('tickets').or(() => undefined)).toThrowError(/at least 1 filter/);
+
+        // Realtime monitoring with filter groups
+        const events: string[] = [];
+        const query = db.query('tickets')
+            .or(q => q.filter('status', '==', 'open').filter('priority', '>=', 5))
+            .on('add', ev => events.push(`add:${ev.ref.key}`))
+            .on('change', ev => events.push(`change:${ev.ref.key}`))
+            .on('remove', ev => events.push(`remove:${ev.ref.key}`));
+        await query.get();
+        await ref.child('t3/priority').set(5);
+        await ref.child('t1/priority').set(2);
+        await ref.child('t4').update({ status: 'closed', priority: 1 });
+        await query.stop();
+        expect(events).toEqual(['add:t3', 'change:t1', 'remove:t4']);
+
+        // Databases without filter group support: groups, skip and take are applied by the client
+        const legacy = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true }, new LegacyMemoryApi());
+        await legacy.ref('tickets').set({
+            t1: { status: 'open', assignee: 'anne', priority: 1 },
+            t2: { status: 'closed', assignee: 'ewout', priority: 5 },
+            t3: { status: 'closed', assignee: 'anne', priority: 4 },
+            t4: { status: 'open', assignee: 'ewout', priority: 5 },
+        });
+        const open = () => legacy.query('tickets').or(q => q.filter('status', '==', 'open').filter('assignee', '==', 'ewout')).sort('priority', false);
+        expect((await open().find()).map(ref => ref.key)).toEqual(['t2', 't4', 't1']);
+        const snaps = await open().skip(1).take(1).get({ include: ['status'] });
+        expect(snaps.map(snap => [snap.key, snap.val()])).toEqual([['t4', { status: 'open' }]]);
+        expect(await open().count()).toBe(3);
+        expect(await open().take(2).count()).toBe(2);
+        expect(await open().distinct('status')).toEqual([{ value: 'closed', count: 1 }, { value: 'open', count: 2 }]);
+        await expectAsync(open().on('add', () => undefined).get()).toBeRejectedWithError(/filter groups/);
+    });
+
+    it('textual queries', async () => {
+        await db.ref('people').set({
+            p1: { name: 'Anne', age: 34, city: 'Amsterdam' },
+            p2: { name: 'Bob', age: 17, city: 'Amsterdam' },
+            p3: { name: 'Carl', age: 52, city: 'Rotterdam' },
+            p4: { name: 'Dana', age: 28, city: 'Utrecht' },
+            p5: { name: 'Eve', age: 61, city: 'Rotterdam', retired: true },
+        });
+        const names = async (query: ReturnType<typeof db.query>) => (await query.get()).map(snap => snap.val().name);
+
+        const parsed = db.query('people').parse('age >= 18 and (city == \'Amsterdam\' or city like \'rot*\') order by name desc take 2');
+        const built = db.query('people')
+            .filter('age', '>=', 18)
+            .or(q => q.filter('city', '==', 'Amsterdam').filter('city', 'like', 'rot*'))
+            .sort('name', false)
+            .take(2);
+        expect(await names(parsed)).toEqual(['Eve', 'Carl']);
+        expect(await names(parsed)).toEqual(await names(built));
+
+        expect(await names(db.query('people').parse('not (city == "Rotterdam" and retired exists) and age between [30, 70] order by age'))).toEqual(['Anne', 'Carl']);
+        expect(await names(db.query('people').parse('city in [\'Utrecht\', \'Amsterdam\'] order by age skip 1'))).toEqual(['Dana', 'Anne']);
+
+        expect(() => db.query('people').parse('age >= ')).toThrowError(/at position 7/);
+        expect(() => db.query('people').parse('tags contains 1 and age between 5')).toThrowError(/at position 20/);
+    });
+
+    it('keyset pagination', async () => {
+        const ref = db.ref('paged');
+        await ref.set({
+            p1: { name: 'Anne', age: 30 },
+            p2: { name: 'Bert', age: 25 },
+            p3: { name: 'Cleo', age: 30 },
+            p4: { name: 'Dirk', age: 40 },
+            p5: { name: 'Emma', age: 25 },
+            p6: { name: 'Fred', age: 35 },
+        });
+        const query = () => db.query('paged').sort('age').take(2);
+        const page1 = await query().get();
+        expect(page1.getValues().map(v => v.name)).toEqual(['Bert', 'Emma']);
+        expect(typeof page1.nextPageCursor).toBe('string');
+
+        const page2 = await query().startAfter(page1.nextPageCursor).get();
+        expect(page2.getValues().map(v => v.name)).toEqual(['Anne', 'Cleo']);
+
+        // Using snapshots (ties are resolved by path) and references
+        const page2b = await query().startAfter(page1[0]).get({ snapshots: false });
+        expect(page2b.getPaths()).toEqual(['paged/p5', 'paged/p1']);
+        expect(page2b.nextPageCursor).toBeDefined();
+        const page3 = await query().startAfter(page2b.nextPageCursor).get();
+        expect(page3.getValues().map(v => v.name)).toEqual(['Cleo', 'Fred']);
+
+        // Using values
+        const after = await db.query('paged').sort('age').startAfter([30]).get();
+        expect(after.getValues().map(v => v.name)).toEqual(['Fred', 'Dirk']);
+        expect(after.nextPageCursor).toBeUndefined();
+        const range = await db.query('paged').sort('age', false).startAt([35]).endBefore([25]).get();
+        expect(range.getValues().map(v => v.name)).toEqual(['Fred', 'Anne', 'Cleo']);
+        const until = await db.query('paged').sort('age').endAt(page1[1]).get();
+        expect(until.getValues().map(v => v.name)).toEqual(['Bert', 'Emma']);
+
+        expect(() => db.query('paged').startAfter('invalid')).toThrowError(/Invalid page cursor/);
+        await expectAsync(db.query('paged').sort('age').startAfter([1, 2]).get()).toBeRejectedWithError(/2 values for a query with 1 sort keys/);
+
+        // Bounds are resolved against the final sort order, so it can be set after the bound
+        const sortedLater = await db.query('paged').startAfter(page1[1]).sort('age').take(2).get();
+        expect(sortedLater.getValues().map(v => v.name)).toEqual(['Anne', 'Cleo']);
+        const valuesFirst = await db.query('paged').endBefore([30]).sort('age').get();
+        expect(valuesFirst.getValues().map(v => v.name)).toEqual(['Bert', 'Emma']);
+    });
+
+    it('queries', async () => {
+        const ref = db.ref('users');
+        await ref.set({
+            u1: { name: 'Ewout', age: 42, tags: ['admin', 'dev'], joined: new Date('2020-01-01') },
+            u2: { name: 'Pete', age: 33, tags: ['dev'], joined: new Date('2021-01-01') },
+            u3: { name: 'Anne', age: 28, joined: new Date('2022-01-01') },
+            u4: { name: 'Eva', age: 33 },
+        });
+        const names = (snaps: DataSnapshotsArray) => snaps.getValues().map(val => val.name);
+
+        expect(names(await ref.query().filter('age', '>', 30).sort('name').get())).toEqual(['Eva', 'Ewout', 'Pete']);
+        expect(names(await ref.query().filter('name', 'like', 'e*').sort('age', false).get())).toEqual(['Ewout', 'Eva']);
+        expect(names(await ref.query().filter('tags', 'contains', 'dev').sort('name').get())).toEqual(['Ewout', 'Pete']);
+        expect(names(await ref.query().filter('tags', '!exists').sort('name').get())).toEqual(['Anne', 'Eva']);
+        expect(names(await ref.query().filter('age', 'in', [28, 42]).sort('age').get())).toEqual(['Anne', 'Ewout']);
+        expect(names(await ref.query().filter('joined', '>=', new Date('2021-01-01')).sort('joined').get())).toEqual(['Pete', 'Anne']);
+        expect(names(await ref.query().sort('age').sort('name').skip(1).take(2).get())).toEqual(['Eva', 'Pete']);
+        expect(names(await ref.query().sort('age').take(-1).get())).toEqual(['Ewout']);
+        expect(await ref.query().filter('age', '<', 30).count()).toBe(1);
+        expect(await ref.query().filter('age', '>', 50).exists()).toBeFalse();
+
+        const refs = await ref.query().filter('age', '==', 33).sort('name').find();
+        expect(refs.getPaths()).toEqual(['users/u4', 'users/u2']);
+
+        const snaps = await ref.query().filter('name', '==', 'Ewout').get({ include: ['name'] });
+        expect(snaps[0].val()).toEqual({ name: 'Ewout' });
+
+        const removed = await ref.query().filter('age', '<', 30).remove();
+        expect(removed.length).toBe(1);
+        expect(await ref.count()).toBe(3);
+    });
+
+    it('query updates', async () => {
+        await db.ref('projects').set({
+            p1: { tasks: { t1: { done: true, hours: 2 }, t2: { done: false, hours: 4 } } },
+            p2: { tasks: { t3: { done: true, hours: 1 } } },
+        });
+
+        const results = await db.query('projects/*/tasks').filter('done', '==', true).update({ archived: true });
+        expect(results.map(r => ({ path: r.ref.path, updated: r.updated.map(ref => ref.key), success: r.success })).sort((a, b) => a.path < b.path ? -1 : 1)).toEqual([
+            { path: 'projects/p1/tasks', updated: ['t1'], success: true },
+            { path: 'projects/p2/tasks', updated: ['t3'], success: true },
+        ]);
+        expect((await db.ref('projects/p1/tasks').get()).val()).toEqual({ t1: { done: true, hours: 2, archived: true }, t2: { done: false, hours: 4 } });
+        expect((await db.ref('projects/p2/tasks/t3').get()).val()).toEqual({ done: true, hours: 1, archived: true });
+
+        // Function form gets a snapshot of each match, returning null skips it
+        const [result] = await db.query('projects/p1/tasks').update(snap => snap.key === 't2' ? null : { hours: snap.val().hours * 2 });
+        expect(result.updated.map(ref => ref.key)).toEqual(['t1']);
+        expect((await db.ref('projects/p1/tasks').get()).val()).toEqual({ t1: { done: true, hours: 4, archived: true }, t2: { done: false, hours: 4 } });
+
+        // Query removes only remove the matches of each parent
+        await db.query('projects/*/tasks').filter('hours', '<', 2).remove();
+        expect((await db.ref('projects').get()).val()).toEqual({ p1: { tasks: { t1: { done: true, hours: 4, archived: true }, t2: { done: false, hours: 4 } } }, p2: { tasks: {} } });
+
+        await expectAsync(db.query('projects').update(null)).toBeRejectedWithError(TypeError);
+
+        // Matches removed or changed after the query was executed are not written to
+        await db.ref('projects/p3/tasks').set({ t4: { hours: 1 }, t5: { hours: 2 } });
+        const [conflict] = await db.query('projects/p3/tasks').update(async snap => {
+            snap.key === 't4' && await db.ref('projects/p3/tasks/t5').remove();
+            return { done: true };
+        });
+        expect(conflict.success).toBeFalse();
+        expect(conflict.error).toBeInstanceOf(ConflictError);
+        expect((await db.ref('projects/p3/tasks').get()).val()).toEqual({ t4: { hours: 1 } });
+
+        // Also without transaction logging, using the values of the matches
+        const noLogging = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true }, new MemoryApi({ transactionLogging: false }));
+        await noLogging.ref('tasks').set({ t1: { hours: 1 }, t2: { hours: 2 } });
+        const [noLoggingConflict] = await noLogging.query('tasks').update(async snap => {
+            snap.key === 't1' && await noLogging.ref('tasks/t2').remove();
+            return { done: true };
+        });
+        expect(noLoggingConflict.error).toBeInstanceOf(ConflictError);
+        expect((await noLogging.ref('tasks').get()).val()).toEqual({ t1: { hours: 1 } });
+    });
+
+    it('expand path references', async () => {
+        await db.ref('companies/acme').set({ name: 'Acme' });
+        await db.ref('users').set({
+            anne: { name: 'Anne', company: new PathReference('companies/acme'), manager: new PathReference('users/bob') },
+            bob: { name: 'Bob', manager: new PathReference('users/carl') },
+            carl: { name: 'Carl', manager: new PathReference('users/anne') },
+        });
+        await db.ref('posts').set({
+            p1: { title: 'Post 1', author: new PathReference('users/anne'), comments: { c1: { user: new PathReference('users/bob') }, c2: { user: new PathReference('users/gone') } } },
+            p2: { title: 'Post 2', author: new PathReference('users/anne') },
+        });
+
+        const snap = await db.ref('posts/p1').get({ expand: ['author', 'author/company', 'comments/*/user'] });
+        expect(snap.val().author).toBeInstanceOf(PathReference);
+        expect(snap.expanded('author').val().name).toBe('Anne');
+        expect(snap.expanded('author/company').val()).toEqual({ name: 'Acme' });
+        expect(snap.expanded('comments/c1/user').ref.path).toBe('users/bob');
+        expect(snap.expanded('comments/c2/user').exists()).toBeFalse();
+        expect(snap.expanded('author/manager')).toBeNull();
+        expect(snap.expanded('title')).toBeNull();
+
+        // Depth limit and cycle detection
+        const anne = await db.ref('users/anne').get({ expand: ['manager'], expandDepth: 10 });
+        expect(anne.expanded('manager').key).toBe('bob');
+        expect(anne.expanded('manager/manager').key).toBe('carl');
+        expect(anne.expanded('manager/manager/manager')).toBeNull(); // refers back to anne
+        const bob = await db.ref('users/bob').get({ expand: ['manager'], expandDepth: 2 });
+        expect(bob.expanded('manager/manager').key).toBe('anne');
+        expect(bob.expanded('manager/manager/manager')).toBeNull();
+
+        // Query results, each referenced node is loaded once
+        const spy = spyOn(db.api, 'get').and.callThrough();
+        const posts = await db.query('posts').sort('title').get({ expand: ['author'] });
+        expect(posts.map(post => post.expanded('author').val().name)).toEqual(['Anne', 'Anne']);
+        expect(spy).toHaveBeenCalledTimes(1);
+
+        expect(() => db.ref('posts/p1').get({ expand: 'author' as any })).toThrowError(/options.expand/);
+    });
+
+    it('explain queries', async () => {
+        const plan = await db.query('users').filter('age', '>', 18).sort('name').explain();
+        expect(plan.scan).toBeTrue();
+        expect(plan.filters[0].scan).toBeTrue();
+        expect(plan.suggestions).toEqual([{ path: 'users', key: 'age', options: { type: 'normal', include: ['name'] }, reason: 'prevents scanning for filter "age >"' }]);
+    });
+
+    it('wildcard queries', async () => {
+        await db.ref('users').set({
+            ewout: { posts: { p1: { title: 'Post 1', likes: 5 }, p2: { title: 'Post 2', likes: 1 } } },
+            pete: { posts: { p3: { title: 'Post 3', likes: 3 } } },
+        });
+        const snaps = await db.query('users/*/posts').filter('likes', '>', 2).sort('likes').get();
+        expect(snaps.map(snap => snap.ref.path)).toEqual(['users/pete/posts/p3', 'users/ewout/posts/p1']);
+
+        // Only the matches of each parent collection are removed from it
+        await db.ref('users/pete/posts/p1').set({ title: 'Pete\'s post 1', likes: 0 });
+        const removed = await db.query('users/*/posts').filter('likes', '>', 2).remove();
+        expect(removed.length).toBe(2);
+        expect((await db.ref('users').get()).val()).toEqual({
+            ewout: { posts: { p2: { title: 'Post 2', likes: 1 } } },
+            pete: { posts: { p1: { title: 'Pete\'s post 1', likes: 0 } } },
+        });
+    });
+
+    it('realtime queries', async () => {
+        const ref = db.ref('users');
+        await ref.set({ u1: { name: 'Ewout', age: 42 } });
+        const events: string[] = [];
+        const query = ref.query()
+            .filter('age', '>', 40)
+            .on('add', ev => events.push(`add:${ev.ref.key}`))
+            .on('change', ev => events.push(`change:${ev.ref.key}=${ev.snapshot.val().age}`))
+            .on('remove', ev => events.push(`remove:${ev.ref.key}`));
+        const results = await query.get();
+        expect(results.length).toBe(1);
+
+        await ref.child('u2').set({ name: 'Pete', age: 50 });
+        await ref.child('u3').set({ name: 'Anne', age: 20 });
+        await ref.child('u1/age').set(43);
+        await ref.child('u2/age').set(30);
+        await ref.child('u1').remove();
+        await query.stop();
+        await ref.child('u4').set({ name: 'Eva', age: 60 });
+        expect(events).toEqual(['add:u2', 'change:u1=43', 'remove:u2', 'remove:u1']);
+    });
+
+    it('live queries', async () => {
+        const ref = db.ref('scores');
+        await ref.set({
+            s1: { player: 'anne', points: 10 },
+            s2: { player: 'bob', points: 30 },
+            s3: { player: 'carl', points: 20 },
+        });
+        const players = (snaps: DataSnapshotsArray) => snaps.map(snap => snap.val().player);
+
+        // Unlimited results are updated with the events
+        const live = await db.query('scores').filter('points', '>=', 10).sort('points', false).live();
+        expect(players(live.results)).toEqual(['bob', 'carl', 'anne']);
+        const changes: any[] = [];
+        live.on('change', change => changes.push({
+            inserted: change.inserted.map(i => `${i.snapshot.val().player}@${i.index}`),
+            removed: change.removed.map(r => `${r.snapshot.val().player}@${r.index}`),
+            moved: change.moved.map(m => `${m.snapshot.val().player}@${m.from}>${m.to}`),
+            updated: change.updated.map(u => `${u.snapshot.val().player}@${u.index}`),
+        }));
+        const emitted: string[][] = [];
+        const subscription = live.subscribe(results => emitted.push(players(results)));
+
+        await ref.child('s4').set({ player: 'dana', points: 25 });
+        await ref.child('s1/points').set(40);
+        await ref.child('s3/player').set('charles');
+        await ref.child('s2/points').set(5);
+        await ref.child('s5').set({ player: 'eve', points: 1 }); // doesn't match
+        await wait();
+        expect(changes).toEqual([
+            { inserted: ['dana@1'], removed: [], moved: [], updated: [] },
+            { inserted: [], removed: [], moved: ['anne@3>0'], updated: [] },
+            { inserted: [], removed: [], moved: [], updated: ['charles@3'] },
+            { inserted: [], removed: ['bob@1'], moved: [], updated: [] },
+        ]);
+        expect(emitted).toEqual([
+            ['bob', 'carl', 'anne'],
+            ['bob', 'dana', 'carl', 'anne'],
+            ['anne', 'bob', 'dana', 'carl'],
+            ['anne', 'bob', 'dana', 'charles'],
+            ['anne', 'dana', 'charles'],
+        ]);
+        subscription.unsubscribe();
+        await live.stop();
+        await ref.child('s6').set({ player: 'fred', points: 100 });
+        await wait();
+        expect(players(live.results)).toEqual(['anne', 'dana', 'charles']);
+
+        // Removals from a full window reload the results, the next node moves into the window
+        const top = await db.query('scores').sort('points', false).take(2).live();
+        expect(players(top.results)).toEqual(['fred', 'anne']);
+        const windowChanges: any[] = [];
+        top.on('change', change => windowChanges.push({ inserted: change.inserted.map(i => i.index), removed: change.removed.map(r => r.index) }));
+        await ref.child('s6').remove();
+        await wait();
+        expect(players(top.results)).toEqual(['anne', 'dana']);
+        expect(windowChanges).toEqual([{ inserted: [1], removed: [0] }]);
+        await ref.child('s5/points').set(2); // Outside the window
+        await wait();
+        expect(windowChanges.length).toBe(1);
+
+        // Adds and changes in the window are applied without reloading
+        const querySpy = spyOn(db.api, 'query').and.callThrough();
+        await ref.child('s4/points').set(45);
+        await ref.child('s7').set({ player: 'gina', points: 42 }); // Moves anne out of the window
+        await ref.child('s3/points').set(10); // Outside the window
+        await wait();
+        expect(players(top.results)).toEqual(['dana', 'gina']);
+        expect(querySpy).not.toHaveBeenCalled();
+        await ref.child('s7').remove();
+        await wait();
+        expect(players(top.results)).toEqual(['dana', 'anne']);
+        expect(querySpy).toHaveBeenCalledTimes(1);
+        await top.stop();
+    });
+
+    it('observe', async () => {
+        db.setObservable('shim');
+        const ref = db.ref('chats/chat1');
+        await ref.set({ title: 'Chat', messages: { msg1: { text: 'Hi' } } });
+        const values: any[] = [];
+        const subscription = ref.observe().subscribe(value => values.push(JSON.parse(JSON.stringify(value))));
+        await wait();
+        await ref.child('messages/msg2').set({ text: 'Hello' });
+        await ref.child('title').set('Changed');
+        await wait();
+        subscription.unsubscribe();
+        expect(values[0]).toEqual({ title: 'Chat', messages: { msg1: { text: 'Hi' } } });
+        expect(values[values.length - 1]).toEqual({ title: 'Changed', messages: { msg1: { text: 'Hi' }, msg2: { text: 'Hello' } } });
+    });
+
+    it('observe with type mappings', async () => {
+        class Message {
+            constructor(public text: string) {}
+            static create(snap: DataSnapshot) { return new Message(snap.val().text); }
+            serialize() { return { text: this.text }; }
+        }
+        class Chat {
+            title: string;
+            messages: Record<string, Message>;
+            static create(snap: DataSnapshot) { return Object.assign(new Chat(), snap.val()); }
+        }
+        db.types.bind('typedchats', Chat);
+        db.types.bind('typedchats/*/messages', Message);
+        db.setObservable('shim');
+        const ref = db.ref('typedchats/chat1');
+        await ref.set({ title: 'Chat', messages: { msg1: new Message('Hi') } });
+        const mutated: any[] = [];
+        const mutations = ref.on('mutations').subscribe((snap: MutationsDataSnapshot) => {
+            snap.forEach(child => { mutated.push([child.ref.path, child.val(), child.previous()]); return true; });
+        });
+        let value: Chat;
+        const subscription = ref.observe<Chat>().subscribe(v => value = v);
+        await wait();
+        expect(value).toBeInstanceOf(Chat);
+
+        // Mapped values are deserialized at the mutated path, the mutations array isn't deserialized as a Chat
+        await ref.child('messages/msg2').set(new Message('Hello'));
+        await ref.child('title').set('Changed');
+        await wait();
+        subscription.unsubscribe();
+        mutations.stop();
+        expect(value).toBeInstanceOf(Chat);
+        expect(value.title).toBe('Changed');
+
+        // Mutations event subscribers get values deserialized at the mutated paths
+        expect(mutated).toEqual([
+            ['typedchats/chat1/messages/msg2', new Message('Hello'), null],
+            ['typedchats/chat1/title', 'Changed', 'Chat'],
+        ]);
+        expect(mutated[0][1]).toBeInstanceOf(Message);
+        expect(value.messages.msg1).toEqual(new Message('Hi'));
+        expect(value.messages.msg2).toBeInstanceOf(Message);
+        expect(value.messages.msg2.text).toBe('Hello');
+    });
+
+    it('observe with data retrieval options', async () => {
+        db.setObservable('shim');
+        const ref = db.ref('chats/chat2');
+        await ref.set({ title: 'Chat', secret: 'x', members: { ewout: true }, messages: { msg1: { text: 'Hi', from: 'ewout' } } });
+        const values: any[] = [];
+        const subscription = ref.observe({ include: ['title', 'messages/*/text'] }).subscribe(value => values.push(JSON.parse(JSON.stringify(value))));
+        await wait();
+        expect(values).toEqual([{ title: 'Chat', messages: { msg1: { text: 'Hi' } } }]);
+
+        // Mutations on paths that are not included are ignored
+        await ref.update({ secret: 'y', members: { ewout: false } });
+        await ref.child('messages/msg1/from').set('annet');
+        await wait();
+        expect(values.length).toBe(1);
+
+        // A multi-property update emits once, with filtered values
+        await ref.update({ title: 'Changed', secret: 'z', 'messages/msg2': { text: 'Hello', from: 'annet' } });
+        await ref.child('messages/msg1').remove();
+        await wait();
+        subscription.unsubscribe();
+        expect(values.slice(1)).toEqual([
+            { title: 'Changed', messages: { msg1: { text: 'Hi' }, msg2: { text: 'Hello' } } },
+            { title: 'Changed', messages: { msg2: { text: 'Hello' } } },
+        ]);
+
+        // Exclude and child_objects
+        const other: any[] = [];
+        const subscription2 = ref.observe({ exclude: ['secret'], child_objects: false }).subscribe(value => other.push(JSON.parse(JSON.stringify(value))));
+        await wait();
+        await ref.update({ secret: 'a', title: 'Again', members: { annet: true } });
+        await ref.child('title').set({ text: 'Now an object' });
+        await wait();
+        subscription2.unsubscribe();
+        expect(other).toEqual([{ title: 'Changed' }, { title: 'Again' }, {}]);
+    });
+});
@@ -1,12 +1,26 @@
-import { DataSnapshot, MutationsDataSnapshot } from './data-snapshot';
+import { DataSnapshot, IDataMutationsArray, MutationsDataSnapshot } from './data-snapshot';
 import { EventStream, EventPublisher } from './subscription';
 import { ID } from './id';
+import { abortable, getAbortError, throwIfAborted } from './errors';
 import { PathInfo } from './path-info';
+import { AggregateResult, AggregateSpec, count, DistinctValue, evaluateAggregates, evaluateDistinct, validateAggregates } from './aggregate';
+import { matches as matchesQuery, queryOperators } from './query';
+import { parseQuery, QueryExpression } from './query-parser';
+import { LiveQueryResults } from './live-query';
+import { expandSnapshots, validateExpandOptions } from './expand';
+import type { QueryPlan } from './query-plan';
+import * as Transport from './transport';
+import { decodeBase64Url, decodeString, encodeBase64Url, encodeString } from './utils';
 import { ILiveDataProxy, LiveDataProxy, LiveDataProxyOptions, SubscribeFunction } from './data-proxy';
 import { getObservable } from './optional-observable';
 import type { Observable } from './optional-observable';
 import type { AceBaseBase } from './acebase-base';
-import type { QueryOptions, StreamReadFunction, StreamWriteFunction, ValueMutation, ValueChange, IStreamLike, ReflectionType, IReflectionNodeInfo, IReflectionChildrenInfo } from './api';
+import type { Api, BatchOperation, WriteCondition, Query, QueryBound, QueryFilterGroup, QueryOptions, StreamReadFunction, StreamWriteFunction, ValueMutation, ValueChange, IStreamLike, ReflectionType, IReflectionNodeInfo, IReflectionChildrenInfo } from './api';
+
+/**
+ * Values to overwrite at (deep) child paths in a multi-path update, eg `{ 'users/ewout/name': 'Ewout' }`
+ */
+export type MultiPathUpdates = Record<`${string}/${string}` | `${string}[${number}]${string}`, any>;
 
 export type ValueEvent = 'value'|'child_added'|'child_changed'|'child_removed'|'mutated'|'mutations'
 export type NotifyEvent = 'notify_value'|'notify_child_added'|'notify_child_changed'|'notify_child_removed'|'notify_mutated'|'notify_mutations'
@@ -25,6 +39,20 @@ export interface EventSettings {
     syncFallback?: 'reload'|(() => any|Promise<any>);
 }
 
+/**
+ * Preconditions for `set` and `update`: the write is rejected with a `ConflictError` if the node does not meet them
+ */
+export interface ConditionalWriteOptions {
+    /**
+     * Only write if the node (or any of its descendants) has not changed since this cursor, eg `ref.cursor` or `snap.context().acebase_cursor`
+     */
+    ifCursor?: string;
+    /**
+     * Only write if the node's current value equals this value. Use `null` to only write if the node does not exist
+     */
+    ifMatch?: any;
+}
+
 export class DataRetrievalOptions {
     /**
      * child keys to include (will exclude other keys), can include wildcards (eg "messages/*\/title")
@@ -69,6 +97,26 @@ export class DataRetrievalOptions {
      */
     cache_mode?: 'allow' | 'bypass' | 'force';
 
+    /**
+     * Signal to cancel the operation with. Once aborted, the returned promise rejects with an `AbortError`
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Paths of properties with `PathReference` values to load the referenced nodes of, can include wildcards
+     * (eg `"comments/*\/user"`). Use `snap.expanded(path)` to get the loaded nodes. References in loaded nodes can be
+     * expanded too by including them in the path, eg `"author/company"`. Each referenced node is loaded only once.
+     */
+    expand?: string[];
+
+    /**
+     * How many times to apply the `expand` paths: `1` expands references of the loaded value only, `2` also expands
+     * them in the referenced nodes, etc. References to nodes that are already being expanded in the same chain
+     * are not expanded again, preventing endless cycles
+     * @default 1
+     */
+    expandDepth?: number;
+
     /**
      * Options for data retrieval, allows selective loading of object properties
      */
@@ -88,6 +136,9 @@ export class DataRetrievalOptions {
         if (typeof options.cache_mode === 'string' && !['allow','bypass','force'].includes(options.cache_mode)) {
             throw new TypeError('invalid value for options.cache_mode');
         }
+        if (typeof options.signal !== 'undefined' && typeof options.signal?.addEventListener !== 'function') {
+            throw new TypeError('options.signal must be an AbortSignal');
+        }
         this.include = options.include || undefined;
         this.exclude = options.exclude || undefined;
         this.child_objects = typeof options.child_objects === 'boolean' ? options.child_objects : undefined;
@@ -97,6 +148,10 @@ export class DataRetrievalOptions {
                 ? options.allow_cache ? 'allow' : 'bypass'
                 : 'allow';
         this.cache_cursor = typeof options.cache_cursor === 'string' ? options.cache_cursor : undefined;
+        this.signal = options.signal;
+        validateExpandOptions(options);
+        this.expand = options.expand;
+        this.expandDepth = options.expandDepth;
     }
 }
 
@@ -119,6 +174,92 @@ export class QueryDataRetrievalOptions extends DataRetrievalOptions {
     }
 }
 
+export interface DataIteratorOptions extends DataRetrievalOptions {
+    /**
+     * Number of children to load per page
+     * @default 100
+     */
+    pageSize?: number;
+
+    /**
+     * Key of the child to resume iterating after, eg the key of the last child processed in a previous iteration.
+     * Only supported when iterating the children of a reference
+     */
+    from?: string;
+}
+
+export interface ForEachOptions extends DataRetrievalOptions {
+    /**
+     * Max number of children to load and process in parallel. Note that callbacks will not be called in order
+     * if this is larger than 1
+     * @default 1
+     */
+    concurrency?: number;
+}
+
+type ObserveFilter = {
+    include?: PathInfo[],
+    exclude?: PathInfo[],
+    child_objects: boolean,
+};
+
+/**
+ * Parses the include and exclude patterns of data retrieval options used by `observe`
+ */
+function getObserveFilter(options?: DataRetrievalOptions): ObserveFilter {
+    const getPatterns = (paths?: Array<string|number>) => paths?.length > 0
+        ? paths.map(path => PathInfo.get(typeof path === 'number' ? [path] : path))
+        : undefined;
+    return {
+        include: getPatterns(options?.include),
+        exclude: getPatterns(options?.exclude),
+        child_objects: options?.child_objects !== false,
+    };
+}
+
+/**
+ * Gets the (filtered) value of a mutation that should be applied to an observed value. Returns `undefined` if the mutated
+ * node is not observed, `null` if it has to be removed from the observed value.
+ * @param keys keys of the mutated node, relative to the observed path
+ * @param value new value of the mutated node
+ * @param filter filter to apply
+ */
+function getObservedValue(keys: Array<string|number>, value: any, filter: ObserveFilter): any {
+    const path = PathInfo.get(keys);
+    if (filter.exclude?.some(pattern => pattern.equals(path) || pattern.isAncestorOf(path))) {
+        return undefined;
+    }
+    const isObject = value !== null && typeof value === 'object' && (value.constructor === Object || value instanceof Array);
+    if (!filter.child_objects && keys.length > 0) {
+        // Child objects (and their descendants) are not observed, remove if a property was changed into an object
+        if (keys.length > 1) { return undefined; }
+        if (isObject) { return null; }
+    }
+    const included = !filter.include || filter.include.some(pattern => pattern.equals(path) || pattern.isAncestorOf(path));
+    if (!included && !filter.include.some(pattern => path.isAncestorOf(pattern))) {
+        return undefined;
+    }
+    if (!isObject) {
+        // Remove nodes that can't contain included descendants
+        return included ? value : null;
+    }
+    const filterChildren = !included
+        || (!filter.child_objects && keys.length === 0)
+        || filter.exclude?.some(pattern => path.isAncestorOf(pattern));
+    if (!filterChildren) {
+        return value;
+    }
+    const copy: any = value instanceof Array ? [] : {};
+    Object.keys(value).forEach(key => {
+        const childKey = value instanceof Array ? +key : key;
+        const childValue = getObservedValue([...keys, childKey], value[key], filter);
+        if (typeof childValue !== 'undefined' && childValue !== null) {
+            copy[childKey] = childValue;
+        }
+    });
+    return copy;
+}
+
 type PathVariables = { [index: number]: string|number, [variable: string]: string|number };
 
 type EventCallback<T = DataSnapshot | DataReference> = ((snapshotOrReference: T) => void);
@@ -129,6 +270,71 @@ interface IEventSubscription {
     ourCallback(err: Error, path: string, newValue: any, oldValue?: any, eventContext?: any): void
 }
 
+/**
+ * Checks if a value can be stored in the node of a reference, and gets the (serialized) set operation to perform
+ */
+function getSetOperation(ref: DataReference, value: any): BatchOperation {
+    if (ref.isWildcardPath) {
+        throw new Error(`Cannot set the value of wildcard path "/${ref.path}"`);
+    }
+    if (ref.parent === null) {
+        throw new Error('Cannot set the root object. Use update, or set individual child properties');
+    }
+    if (typeof value === 'undefined') {
+        throw new TypeError(`Cannot store undefined value in "/${ref.path}"`);
+    }
+    return { type: 'set', path: ref.path, value: ref.db.types.serialize(ref.path, value) };
+}
+
+/**
+ * Checks if updates can be stored in the node of a reference, and gets the (serialized) operations to perform.
+ * Returns a single update operation, or set operations for all target paths of a multi-path update
+ */
+function getUpdateOperations(ref: DataReference, updates: any): BatchOperation[] {
+    if (ref.isWildcardPath) {
+        throw new Error(`Cannot update the value of wildcard path "/${ref.path}"`);
+    }
+    if (typeof updates !== 'object' || updates instanceof Array || updates instanceof ArrayBuffer || updates instanceof Date) {
+        return [getSetOperation(ref, updates)];
+    }
+    const keys = Object.keys(updates);
+    if (!keys.some(key => key.includes('/') || key.includes('['))) {
+        return [{ type: 'update', path: ref.path, value: ref.db.types.serialize(ref.path, updates) }];
+    }
+    // Multi-path update: overwrite all (deep) child paths
+    const pathInfo = PathInfo.get(ref.path);
+    const targets = keys.map(key => ({ key, pathInfo: pathInfo.child(key) }));
+    targets.forEach((target, i) => {
+        const overlap = targets.find((other, j) => j !== i && (other.pathInfo.equals(target.pathInfo) || other.pathInfo.isAncestorOf(target.pathInfo)));
+        if (overlap) {
+            throw new Error(`Cannot update overlapping paths "${overlap.key}" and "${target.key}" of "/${ref.path}"`);
+        }
+    });
+    return targets.map(target => getSetOperation(new DataReference(ref.db, target.pathInfo.path), updates[target.key]));
+}
+
+/**
+ * Gets the (serialized) write conditions to pass to the api for a conditional write on a reference. Throws if the
+ * database does not support them, because it would write unconditionally
+ */
+function getWriteConditions(ref: DataReference, options: ConditionalWriteOptions): WriteCondition[] {
+    if (typeof options?.ifCursor === 'undefined' && typeof options?.ifMatch === 'undefined') {
+        return undefined;
+    }
+    if (!ref.db.api.supportsWriteConditions()) {
+        throw new Error(`Cannot write to "/${ref.path}" conditionally: the database does not support write conditions (ifCursor, ifMatch)`);
+    }
+    const condition: WriteCondition = { path: ref.path };
+    if (typeof options.ifCursor !== 'undefined') {
+        if (typeof options.ifCursor !== 'string') { throw new TypeError('ifCursor must be a string'); }
+        condition.ifCursor = options.ifCursor;
+    }
+    if (typeof options.ifMatch !== 'undefined') {
+        condition.ifMatch = ref.db.types.serialize(ref.path, options.ifMatch);
+    }
+    return [condition];
+}
+
 const _private = Symbol('private');
 export class DataReference<T = any> {
     private [_private]: {
@@ -302,22 +508,32 @@ export class DataReference<T = any> {
      * @param onComplete optional completion callback to use instead of returning promise
      * @returns promise that resolves with this reference when completed
      */
-    async set(value: T, onComplete?: (err: Error, ref: DataReference) => void): Promise<this> {
+    set(value: T, onComplete?: (err: Error, ref: DataReference) => void): Promise<this>;
+    /**
+     * Sets or overwrites the stored value, only if the node meets given conditions
+     * @param value value to store in database
+     * @param options conditions the node must meet, the promise rejects with a `ConflictError` if it doesn't
+     * @param onComplete optional completion callback to use instead of returning promise
+     * @returns promise that resolves with this reference when completed
+     * @example
+     * const snap = await ref.get();
+     * const cursor = snap.context().acebase_cursor;
+     * // ...
+     * await ref.set(newValue, { ifCursor: cursor }); // Rejects if ref was changed in the meantime
+     */
+    set(value: T, options: ConditionalWriteOptions, onComplete?: (err: Error, ref: DataReference) => void): Promise<this>;
+    async set(value: T, optionsOrCallback?: ConditionalWriteOptions|((err: Error, ref: DataReference) => void), onComplete?: (err: Error, ref: DataReference) => void): Promise<this> {
+        if (typeof optionsOrCallback === 'function') {
+            onComplete = optionsOrCallback;
+        }
+        const options = typeof optionsOrCallback === 'object' ? optionsOrCallback : undefined;
         try {
-            if (this.isWildcardPath) {
-                throw new Error(`Cannot set the value of wildcard path "/${this.path}"`);
-            }
-            if (this.parent === null) {
-                throw new Error('Cannot set the root object. Use update, or set individual child properties');
-            }
-            if (typeof value === 'undefined') {
-                throw new TypeError(`Cannot store undefined value in "/${this.path}"`);
-            }
+            const operation = getSetOperation(this, value);
+            const conditions = getWriteConditions(this, options);
             if (!this.db.isReady) {
                 await this.db.ready();
             }
-            value = this.db.types.serialize(this.path, value);
-            const { cursor } = await this.db.api.set(this.path, value, { context: this[_private].context });
+            const { cursor } = await this.db.api.set(this.path, operation.value, { context: this[_private].context, conditions });
             this.cursor = cursor;
             if (typeof onComplete === 'function') {
                 try { onComplete(null, this);} catch(err) { console.error('Error in onComplete callback:', err); }
@@ -336,12 +552,33 @@ export class DataReference<T = any> {
     }
 
     /**
-     * Updates properties of the referenced node
-     * @param updates containing the properties to update
+     * Updates properties of the referenced node. Deep child paths can be used as keys to perform a multi-path ("fan-out") update:
+     * all targets are overwritten in one atomic operation, which either succeeds or fails as a whole.
+     * @param updates containing the properties to update, or (deep) child paths and their new values
      * @param onComplete optional completion callback to use instead of returning promise
      * @return returns promise that resolves with this reference once completed
+     * @example
+     * // Update denormalized data in a single operation
+     * await db.ref('').update({
+     *    'users/ewout/name': 'Ewout',
+     *    'posts/post1/author/name': 'Ewout',
+     *    'posts/post1/tags[0]': 'updated',
+     * });
      */
-    async update(updates: Partial<T>, onComplete?:(err: Error, ref: DataReference) => void): Promise<this> {
+    update(updates: Partial<T> & MultiPathUpdates, onComplete?: (err: Error, ref: DataReference) => void): Promise<this>;
+    /**
+     * Updates properties of the referenced node, only if the node meets given conditions
+     * @param updates containing the properties to update, or (deep) child paths and their new values
+     * @param options conditions the node must meet, the promise rejects with a `ConflictError` if it doesn't
+     * @param onComplete optional completion callback to use instead of returning promise
+     * @return returns promise that resolves with this reference once completed
+     */
+    update(updates: Partial<T> & MultiPathUpdates, options: ConditionalWriteOptions, onComplete?: (err: Error, ref: DataReference) => void): Promise<this>;
+    async update(updates: Partial<T> & MultiPathUpdates, optionsOrCallback?: ConditionalWriteOptions|((err: Error, ref: DataReference) => void), onComplete?: (err: Error, ref: DataReference) => void): Promise<this> {
+        if (typeof optionsOrCallback === 'function') {
+            onComplete = optionsOrCallback;
+        }
+        const options = typeof optionsOrCallback === 'object' ? optionsOrCallback : undefined;
         try {
             if (this.isWildcardPath) {
                 throw new Error(`Cannot update the value of wildcard path "/${this.path}"`);
@@ -350,14 +587,17 @@ export class DataReference<T = any> {
                 await this.db.ready();
             }
             if (typeof updates !== 'object' || updates instanceof Array || updates instanceof ArrayBuffer || updates instanceof Date) {
-                await this.set(updates as any);
+                await this.set(updates as any, options);
             }
             else if (Object.keys(updates).length === 0) {
                 console.warn(`update called on path "/${this.path}", but there is nothing to update`);
             }
             else {
-                updates = this.db.types.serialize(this.path, updates);
-                const { cursor } = await this.db.api.update(this.path, updates, { context: this[_private].context });
+                const operations = getUpdateOperations(this, updates);
+                const conditions = getWriteConditions(this, options);
+                const { cursor } = operations[0].type === 'update'
+                    ? await this.db.api.update(this.path, operations[0].value, { context: this[_private].context, conditions })
+                    : await this.db.api.batch(operations, { context: this[_private].context, conditions }); // Multi-path update
                 this.cursor = cursor;
             }
             if (typeof onComplete === 'function') {
@@ -380,12 +620,14 @@ export class DataReference<T = any> {
      * Sets the value a node using a transaction: it runs your callback function with the current value, uses its return value as the new value to store.
      * The transaction is canceled if your callback returns undefined, or throws an error. If your callback returns null, the target node will be removed.
      * @param callback - callback function that performs the transaction on the node's current value. It must return the new value to store (or promise with new value), undefined to cancel the transaction, or null to remove the node.
+     * @param options conditions the node must meet when the new value is stored, the promise rejects with a `ConflictError` if it doesn't
      * @returns returns a promise that resolves with the DataReference once the transaction has been processed
      */
-    async transaction<Value = T>(callback: (currentValue: DataSnapshot<Value>) => any): Promise<this> {
+    async transaction<Value = T>(callback: (currentValue: DataSnapshot<Value>) => any, options?: ConditionalWriteOptions): Promise<this> {
         if (this.isWildcardPath) {
             throw new Error(`Cannot start a transaction on wildcard path "/${this.path}"`);
         }
+        const conditions = getWriteConditions(this, options);
         if (!this.db.isReady) {
             await this.db.ready();
         }
@@ -416,7 +658,7 @@ export class DataReference<T = any> {
                 return this.db.types.serialize(this.path, newValue);
             }
         };
-        const { cursor } = await this.db.api.transaction(this.path, cb, { context: this[_private].context });
+        const { cursor } = await this.db.api.transaction(this.path, cb, { context: this[_private].context, conditions });
         this.cursor = cursor;
         if (throwError) {
             // Rethrow error from callback code
@@ -479,6 +721,19 @@ export class DataReference<T = any> {
                     // No data event, callback with reference
                     callbackObject = ref.context(eventContext || {});
                 }
+                else if (event === 'mutations') {
+                    // Values of the mutations array are stored at different paths, apply type mappings of each mutated path
+                    const pathInfo = PathInfo.get(path);
+                    const mutations = (newValue as IDataMutationsArray).map(mutation => {
+                        const mutationPath = pathInfo.child(mutation.target).path;
+                        return {
+                            ...mutation,
+                            prev: this.db.types.deserialize(mutationPath, mutation.prev),
+                            val: this.db.types.deserialize(mutationPath, mutation.val),
+                        };
+                    });
+                    callbackObject = new MutationsDataSnapshot(ref, mutations, eventContext);
+                }
                 else {
                     const values = {
                         previous: this.db.types.deserialize(path, oldValue),
@@ -487,9 +742,6 @@ export class DataReference<T = any> {
                     if (event === 'child_removed') {
                         callbackObject = new DataSnapshot(ref, values.previous, true, values.previous, eventContext);
                     }
-                    else if (event === 'mutations') {
-                        callbackObject = new MutationsDataSnapshot(ref, values.current, eventContext);
-                    }
                     else {
                         const isRemoved = event === 'mutated' && values.current === null;
                         callbackObject = new DataSnapshot(ref, values.current, isRemoved, values.previous, eventContext);
@@ -669,7 +921,12 @@ export class DataReference<T = any> {
         }
 
         const options = new DataRetrievalOptions(typeof optionsOrCallback === 'object' ? optionsOrCallback : { cache_mode: 'allow' });
-        const promise = this.db.api.get(this.path, options).then(result => {
+        if (options.signal?.aborted) {
+            const error = getAbortError(options.signal);
+            if (typeof callback === 'function') { throw error; }
+            return Promise.reject(error);
+        }
+        const promise = abortable(this.db.api.get(this.path, options), options.signal).then(async result => {
             const isNewApiResult = ('context' in result && 'value' in result);
             if (!isNewApiResult) {
                 // acebase-core version package was updated but acebase or acebase-client package was not? Warn, but don't throw an error.
@@ -681,6 +938,9 @@ export class DataReference<T = any> {
             if (result.context?.acebase_cursor) {
                 this.cursor = result.context.acebase_cursor;
             }
+            if (options.expand) {
+                await expandSnapshots(this.db, [snapshot], options);
+            }
             return snapshot;
         });
 
@@ -872,20 +1132,29 @@ export class DataReference<T = any> {
      * @param options Only supported format currently is json
      * @returns returns a promise that resolves once all data is exported
      */
-    export(write: StreamWriteFunction, options?: { format?: 'json', type_safe?: boolean }): Promise<void>;
+    export(write: StreamWriteFunction, options?: { format?: 'json', type_safe?: boolean, signal?: AbortSignal }): Promise<void>;
     /**
      * @deprecated use method signature with stream writer function argument instead
      */
-    export(stream: IStreamLike, options?: { format?: 'json', type_safe?: boolean }): Promise<void>;
-    async export(write: StreamWriteFunction | IStreamLike, options: { format?: 'json', type_safe?: boolean } = { format: 'json', type_safe: true }) {
+    export(stream: IStreamLike, options?: { format?: 'json', type_safe?: boolean, signal?: AbortSignal }): Promise<void>;
+    async export(write: StreamWriteFunction | IStreamLike, options: { format?: 'json', type_safe?: boolean, signal?: AbortSignal } = { format: 'json', type_safe: true }) {
         if (this.isWildcardPath) {
             throw new Error(`Cannot export wildcard path "/${this.path}"`);
         }
         if (!this.db.isReady) {
             await this.db.ready();
         }
-        const writeFn = typeof write === 'function' ? write : write.write.bind(write);
-        return this.db.api.export(this.path, writeFn, options);
+        const { signal } = options;
+        throwIfAborted(signal);
+        const streamWrite = typeof write === 'function' ? write : write.write.bind(write);
+        const writeFn: StreamWriteFunction = signal
+            ? (str: string) => {
+                // Stop writing to the stream once aborted
+                throwIfAborted(signal);
+                return streamWrite(str);
+            }
+            : streamWrite;
+        return abortable(this.db.api.export(this.path, writeFn, options), signal);
     }
 
     /**
@@ -894,14 +1163,23 @@ export class DataReference<T = any> {
      * @param options Only supported format currently is json
      * @returns returns a promise that resolves once all data is imported
      */
-    async import(read: StreamReadFunction, options = { format: 'json', suppress_events: false }): Promise<void> {
+    async import(read: StreamReadFunction, options: { format?: 'json', suppress_events?: boolean, signal?: AbortSignal } = { format: 'json', suppress_events: false }): Promise<void> {
         if (this.isWildcardPath) {
             throw new Error(`Cannot import to wildcard path "/${this.path}"`);
         }
         if (!this.db.isReady) {
             await this.db.ready();
         }
-        return this.db.api.import(this.path, read, options);
+        const { signal } = options;
+        throwIfAborted(signal);
+        const readFn: StreamReadFunction = signal
+            ? (length: number) => {
+                // Stop reading from the stream once aborted
+                throwIfAborted(signal);
+                return read(length);
+            }
+            : read;
+        return abortable(this.db.api.import(this.path, readFn, options), signal);
     }
 
     /**
@@ -943,8 +1221,9 @@ export class DataReference<T = any> {
      * Returns a RxJS Observable that can be used to observe
      * updates to this node and its children. It does not return snapshots, so
      * you can bind the observable straight to a view. The value being observed
-     * is updated internally using the new "mutated" event. All mutations are
-     * applied to the original value, and kept in-memory.
+     * is updated internally using the "mutations" event. All mutations are
+     * applied to the original value, and kept in-memory. Each (multi-path) update
+     * results in a single emission.
      * @example
      * <!-- In your Angular view template: -->
      * <ng-container *ngIf="liveChat | async as chat">
@@ -969,17 +1248,15 @@ export class DataReference<T = any> {
      */
     observe<T = any>(): Observable<T>;
     /**
-      * @param options optional initial data retrieval options.
-      * Not recommended to use yet - given includes/excludes are not applied to received mutations,
-      * or sync actions when using an AceBaseClient with cache db.
-      */
+     * @param options optional data retrieval options, to only observe specific children. Eg `{ include: ['title', 'messages/*\/text'] }`
+     * will only load and observe the title and text of each message. Mutations to other data are ignored.
+     */
+    observe<T = any>(options?: DataRetrievalOptions): Observable<T>;
     observe<T = any>(options?: DataRetrievalOptions): Observable<T> {
-        // options should not be used yet - we can't prevent/filter mutation events on excluded paths atm
-        if (options) { throw new Error('observe does not support data retrieval options yet'); }
-
         if (this.isWildcardPath) {
             throw new Error(`Cannot observe wildcard path "/${this.path}"`);
         }
+        const filter = getObserveFilter(options);
         const Observable = getObservable<T>();
         return new Observable((observer => {
             let cache: any, resolved = false;
@@ -989,51 +1266,65 @@ export class DataReference<T = any> {
                 observer.next(cache);
             });
 
-            const updateCache = (snap: DataSnapshot) => {
+            const updateCache = (snap: MutationsDataSnapshot) => {
                 if (!resolved) {
                     promise = promise.then(() => updateCache(snap));
                     return;
                 }
-                const mutatedPath = snap.ref.path;
-                if (mutatedPath === this.path) {
-                    cache = snap.val();
-                    return observer.next(cache);
-                }
-                const trailKeys = PathInfo.getPathKeys(mutatedPath).slice(PathInfo.getPathKeys(this.path).length);
-                let target = cache;
-                while (trailKeys.length > 1) {
-                    const key = trailKeys.shift();
-                    if (!(key in target)) {
-                        // Happens if initial loaded data did not include / excluded this data,
-                        // or we missed out on an event
-                        target[key] = typeof trailKeys[0] === 'number' ? [] : {};
+                const mutations = snap.val(false);
+                let changed = false;
+                mutations.forEach(mutation => {
+                    const trailKeys = mutation.target.slice();
+                    const newValue = getObservedValue(trailKeys, mutation.val, filter);
+                    if (typeof newValue === 'undefined') {
+                        // Not observed
+                        return;
                     }
-                    target = target[key];
-                }
-                const prop = trailKeys.shift();
-                const newValue = snap.val();
-                if (newValue === null) {
-                    // Remove it
-                    target instanceof Array && typeof prop === 'number' ? target.splice(prop, 1) : delete target[prop];
-                }
-                else {
-                    // Set or update it
-                    target[prop] = newValue;
+                    changed = true;
+                    if (trailKeys.length === 0) {
+                        cache = newValue;
+                        return;
+                    }
+                    if (cache === null || typeof cache !== 'object') {
+                        cache = typeof trailKeys[0] === 'number' ? [] : {};
+                    }
+                    let target = cache;
+                    while (trailKeys.length > 1) {
+                        const key = trailKeys.shift();
+                        if (!(key in target) || target[key] === null || typeof target[key] !== 'object') {
+                            // Happens if initial loaded data did not include / excluded this data,
+                            // or we missed out on an event
+                            target[key] = typeof trailKeys[0] === 'number' ? [] : {};
+                        }
+                        target = target[key];
+                    }
+                    const prop = trailKeys.shift();
+                    if (newValue === null) {
+                        // Remove it
+                        target instanceof Array && typeof prop === 'number' ? target.splice(prop, 1) : delete target[prop];
+                    }
+                    else {
+                        // Set or update it
+                        target[prop] = newValue;
+                    }
+                });
+                if (changed) {
+                    observer.next(cache);
                 }
-                observer.next(cache);
             };
 
-            this.on('mutated', updateCache); // TODO: Refactor to 'mutations' event instead
+            this.on('mutations', updateCache);
 
             // Return unsubscribe function
             return () => {
-                this.off('mutated', updateCache);
+                this.off('mutations', updateCache);
             };
         }) as SubscribeFunction<T>);
     }
 
     /**
-     * Iterate through each child in the referenced collection by streaming them one at a time.
+     * Iterate through each child in the referenced collection by streaming them one at a time. Note that all child keys
+     * are loaded before iterating, use `iterate` to page through very large collections instead.
      * @param callback function to call with a `DataSnapshot` of each child. If your function
      * returns a `Promise`, iteration will wait until it resolves before loading the next child.
      * Iterating stops if callback returns (or resolves with) `false`
@@ -1059,46 +1350,69 @@ export class DataReference<T = any> {
     forEach<Child = any>(callback: ForEachIteratorCallback<Child>): Promise<ForEachIteratorResult>;
     /**
      * @param options specify what data to load for each child. Eg `{ include: ['title', 'description'] }`
-     * will only load each child's title and description properties
+     * will only load each child's title and description properties. Use `concurrency` to load and process
+     * multiple children in parallel, eg `{ concurrency: 10 }`
      */
-    forEach<Child = any>(options: DataRetrievalOptions, callback: ForEachIteratorCallback<Child>): Promise<ForEachIteratorResult>;
-    async forEach<Child = any>(callbackOrOptions: ForEachIteratorCallback|DataRetrievalOptions, callback?: ForEachIteratorCallback<Child>): Promise<ForEachIteratorResult> {
-        let options;
+    forEach<Child = any>(options: ForEachOptions, callback: ForEachIteratorCallback<Child>): Promise<ForEachIteratorResult>;
+    async forEach<Child = any>(callbackOrOptions: ForEachIteratorCallback|ForEachOptions, callback?: ForEachIteratorCallback<Child>): Promise<ForEachIteratorResult> {
+        let options: ForEachOptions;
         if (typeof callbackOrOptions === 'function') { callback = callbackOrOptions; }
         else { options = callbackOrOptions; }
         if (typeof callback !== 'function') { throw new TypeError('No callback function given'); }
 
-        // Get all children through reflection. This could be tweaked further using paging
-        const info = await this.reflect('children', { limit: 0, skip: 0 }); // Gets ALL child keys
-
-        const summary:ForEachIteratorResult = {
-            canceled: false,
-            total: info.list.length,
-            processed: 0,
-        };
+        const { concurrency = 1, ...retrievalOptions } = options ?? {};
+        const signal = options?.signal;
+        assertConcurrency(concurrency);
+        throwIfAborted(signal);
 
-        // Iterate through all children until callback returns false
-        for (let i = 0; i < info.list.length; i++) {
-            const key = info.list[i].key;
-
-            // Get child data
-            const snapshot = await this.child(key).get(options);
-            summary.processed++;
+        // Get all children through reflection. This could be tweaked further using paging
+        const info = await abortable(this.reflect('children', { limit: 0, skip: 0 }), signal); // Gets ALL child keys
+
+        return iterateSnapshots(
+            info.list.length,
+            i => this.child(info.list[i].key).get(retrievalOptions),
+            callback,
+            { concurrency, signal },
+        );
+    }
 
-            if (!snapshot.exists()) {
-                // Was removed in the meantime, skip
-                continue;
+    /**
+     * Iterates through the children of the referenced collection, loading child keys in pages of `pageSize`
+     * instead of all at once. Children are yielded in key order.
+     * @example
+     * ```js
+     * for await (const bookSnapshot of db.ref('books').iterate({ pageSize: 500, include: ['title'] })) {
+     *    console.log(`Got book "${bookSnapshot.val().title}"`);
+     * }
+     * ```
+     */
+    async *iterate<Child = any>(options: DataIteratorOptions = {}): AsyncGenerator<DataSnapshot<Child>, void, undefined> {
+        const { pageSize = 100, from, ...retrievalOptions } = options;
+        if (typeof pageSize !== 'number' || pageSize < 1 || Math.floor(pageSize) !== pageSize) {
+            throw new TypeError('options.pageSize must be a positive integer');
+        }
+        if (typeof from !== 'undefined' && typeof from !== 'string') {
+            throw new TypeError('options.from must be a string');
+        }
+        const signal = options.signal;
+        let lastKey = from;
+        while (true) {
+            throwIfAborted(signal);
+            const page = await abortable(this.reflect('children', { limit: pageSize, from: lastKey }), signal);
+            for (const child of page.list) {
+                throwIfAborted(signal);
+                const snapshot = await this.child<Child>(child.key).get(retrievalOptions);
+                if (!snapshot.exists()) {
+                    // Was removed in the meantime, skip
+                    continue;
+                }
+                yield snapshot;
             }
-
-            // Run callback
-            const result = await callback(snapshot);
-            if (result === false) {
-                summary.canceled = true;
-                break; // Stop looping
+            if (!page.more || page.list.length === 0) {
+                break;
             }
+            lastKey = page.list[page.list.length - 1].key.toString();
         }
-
-        return summary;
     }
 
     /**
@@ -1143,6 +1457,76 @@ interface ForEachIteratorResult {
     processed: number
 }
 
+/**
+ * Checks the `concurrency` option of `forEach`, before any data is loaded
+ */
+function assertConcurrency(concurrency: number) {
+    if (typeof concurrency !== 'number' || concurrency < 1 || Math.floor(concurrency) !== concurrency) {
+        throw new TypeError('options.concurrency must be a positive integer');
+    }
+}
+
+/**
+ * Loads and processes snapshots for `forEach`, with up to `concurrency` children being loaded and processed in parallel.
+ * Once a callback returns `false`, no more children are loaded, and children loaded in the meantime are not processed
+ * @param total number of children to iterate
+ * @param getSnapshot loads the child with given index
+ * @param callback user callback to run for each existing child
+ */
+async function iterateSnapshots<T>(
+    total: number,
+    getSnapshot: (index: number) => Promise<DataSnapshot<T>>,
+    callback: ForEachIteratorCallback<T>,
+    options: { concurrency: number, signal?: AbortSignal },
+): Promise<ForEachIteratorResult> {
+    const { concurrency, signal } = options;
+
+    const summary: ForEachIteratorResult = {
+        canceled: false,
+        total,
+        processed: 0,
+    };
+
+    let next = 0, failed = false;
+    const stopped = () => summary.canceled || failed;
+    const worker = async () => {
+        // Iterate through children until a callback returns false
+        while (!stopped() && next < total) {
+            // Stop loading children once aborted
+            throwIfAborted(signal);
+
+            // Get child data
+            const snapshot = await getSnapshot(next++);
+            if (stopped()) {
+                // Canceled by another callback (or failed) while loading
+                break;
+            }
+            summary.processed++;
+
+            if (!snapshot.exists()) {
+                // Was removed in the meantime, skip
+                continue;
+            }
+
+            // Run callback
+            const result = await callback(snapshot);
+            if (result === false) {
+                summary.canceled = true; // Stop looping
+            }
+        }
+    };
+    const workers = [] as Promise<void>[];
+    for (let i = 0; i < Math.min(concurrency, total); i++) {
+        workers.push(worker().catch(err => {
+            failed = true;
+            throw err;
+        }));
+    }
+    await Promise.all(workers);
+
+    return summary;
+}
+
 interface QueryFilter {
     key: string|number,
     op: QueryOperator,
@@ -1170,17 +1554,307 @@ export interface QueryRemoveResult {
     ref: DataReference
 }
 
+export interface QueryUpdateResult {
+    success: boolean,
+    error?: Error,
+    /**
+     * Reference to the parent of the updated nodes
+     */
+    ref: DataReference,
+    /**
+     * References to the nodes that were updated (or failed to)
+     */
+    updated: DataReference[]
+}
+
+export type QueryUpdateFunction<T = any> = (snapshot: DataSnapshot<T>) => (Partial<T> & MultiPathUpdates) | null | void | Promise<(Partial<T> & MultiPathUpdates) | null | void>;
+
 export type StandardQueryOperator = '<'|'<='|'=='|'!='|'>'|'>='|'exists'|'!exists'|'between'|'!between'|'like'|'!like'|'matches'|'!matches'|'in'|'!in'|'has'|'!has'|'contains'|'!contains';
 export type FullTextQueryOperator = 'fulltext:contains' | 'fulltext:!contains';
 export type GeoQueryOperator = 'geo:nearby';
 export type QueryOperator = StandardQueryOperator | FullTextQueryOperator | GeoQueryOperator;
 
+/**
+ * Checks if a query filter is valid, throws an error if not
+ */
+function validateFilter(key: string|number, op: QueryOperator, compare?: any) {
+    if (!['string','number'].includes(typeof key)) {
+        throw new TypeError('key must be a string or number');
+    }
+    if (!queryOperators.includes(op)) {
+        throw new Error(`Invalid query operator "${op}" for ${key}`);
+    }
+    if ((op === 'in' || op === '!in') && (!(compare instanceof Array) || compare.length === 0)) {
+        throw new Error(`${op} filter for ${key} must supply an Array compare argument containing at least 1 value`);
+    }
+    if ((op === 'between' || op === '!between') && (!(compare instanceof Array) || compare.length !== 2)) {
+        throw new Error(`${op} filter for ${key} must supply an Array compare argument containing 2 values`);
+    }
+    if ((op === 'matches' || op === '!matches') && !(compare instanceof RegExp)) {
+        throw new Error(`${op} filter for ${key} must supply a RegExp compare argument`);
+    }
+    // DISABLED 2019/10/23 because it is not fully implemented only works locally
+    // if (op === "custom" && typeof compare !== "function") {
+    //     throw `${op} filter for ${key} must supply a Function compare argument`;
+    // }
+    // DISABLED 2022/08/15, implemented by query.ts in acebase
+    // if ((op === 'contains' || op === '!contains') && ((typeof compare === 'object' && !(compare instanceof Array) && !(compare instanceof Date)) || (compare instanceof Array && compare.length === 0))) {
+    //     throw new Error(`${op} filter for ${key} must supply a simple value or (non-zero length) array compare argument`);
+    // }
+}
+
+/**
+ * Builds the filters of a query filter group, used by `query.or` and `query.not`
+ */
+export class QueryFilterBuilder {
+    private [_private]: {
+        readonly filters: Array<QueryFilter | QueryFilterGroup>
+    };
+
+    constructor() {
+        this[_private] = { filters: [] };
+    }
+
+    /**
+     * Adds a filter to the group
+     * @param key property to test value of
+     * @param op operator to use
+     * @param compare value to compare with
+     */
+    filter(key: string|number, op: QueryOperator, compare?: any): QueryFilterBuilder {
+        validateFilter(key, op, compare);
+        this[_private].filters.push({ key, op, compare });
+        return this;
+    }
+
+    /**
+     * Adds a nested group of filters that all must match
+     * @param build function that adds the filters to the nested group
+     */
+    and(build: (group: QueryFilterBuilder) => any): QueryFilterBuilder {
+        this[_private].filters.push(buildFilterGroup('and', build));
+        return this;
+    }
+
+    /**
+     * Adds a nested group of filters of which at least one must match
+     * @param build function that adds the filters to the nested group
+     */
+    or(build: (group: QueryFilterBuilder) => any): QueryFilterBuilder {
+        this[_private].filters.push(buildFilterGroup('or', build));
+        return this;
+    }
+
+    /**
+     * Adds a nested group of filters that must not all match
+     * @param build function that adds the filters to the nested group
+     */
+    not(build: (group: QueryFilterBuilder) => any): QueryFilterBuilder {
+        this[_private].filters.push(buildFilterGroup('not', build));
+        return this;
+    }
+}
+
+/**
+ * Creates a filter group using a builder function
+ */
+function buildFilterGroup(type: QueryFilterGroup['type'], build: (group: QueryFilterBuilder) => any): QueryFilterGroup {
+    if (typeof build !== 'function') {
+        throw new TypeError(`${type} group requires a function argument to build its filters`);
+    }
+    const builder = new QueryFilterBuilder();
+    build(builder);
+    const filters = builder[_private].filters;
+    if (filters.length === 0) {
+        throw new Error(`${type} group must contain at least 1 filter`);
+    }
+    return { type, filters: filters.slice() };
+}
+
+/**
+ * Groups query matches by the path of their parent
+ */
+function groupByParent<Match>(matches: Match[], getRef: (match: Match) => DataReference) {
+    return matches.reduce((parents, match) => {
+        const parentPath = getRef(match).parent.path;
+        if (!parents[parentPath]) { parents[parentPath] = [match]; }
+        else { parents[parentPath].push(match); }
+        return parents;
+    }, {} as Record<string, Match[]>);
+}
+
+/**
+ * Creates a copy of a query without its event subscriptions
+ */
+function cloneQuery(query: DataReferenceQuery) {
+    const clone = new DataReferenceQuery(query.ref);
+    const { filters, skip, take, order, groups, start, end } = query[_private];
+    clone[_private] = { filters: filters.slice(), skip, take, order: order.slice(), groups: groups.slice(), start, end, events: {} };
+    return clone;
+}
+
+/**
+ * Adds a parsed filter expression to a query or filter group, using the same builder methods
+ */
+function addParsedFilter(target: DataReferenceQuery | QueryFilterBuilder, expression: QueryExpression): void {
+    switch (expression.type) {
+        case 'filter': {
+            try {
+                target.filter(expression.key, expression.op, expression.compare);
+            }
+            catch (err) {
+                throw new Error(`${err.message} (at position ${expression.position})`);
+            }
+            break;
+        }
+        case 'and': {
+            if (target instanceof DataReferenceQuery) {
+                // All filters of a query must match already
+                expression.expressions.forEach(e => addParsedFilter(target, e));
+            }
+            else {
+                target.and(group => expression.expressions.forEach(e => addParsedFilter(group, e)));
+            }
+            break;
+        }
+        case 'or': {
+            target.or(group => expression.expressions.forEach(e => addParsedFilter(group, e)));
+            break;
+        }
+        case 'not': {
+            // not (a and b) is added as a single not group with filters a and b
+            const negated = expression.expression;
+            target.not(group => negated.type === 'and'
+                ? negated.expressions.forEach(e => addParsedFilter(group, e))
+                : addParsedFilter(group, negated));
+            break;
+        }
+    }
+}
+
+/**
+ * Checks if a query has filter groups that the database doesn't support (see `Api.supportsQueryFeature`), which have to
+ * be applied by the client
+ */
+function hasClientGroups(api: Api, query: Query) {
+    return query.groups?.length > 0 && !api.supportsQueryFeature('groups');
+}
+
+/**
+ * Executes a query with filter groups on a database that doesn't support them: the query is executed without its groups,
+ * `skip` and `take`, which are then applied to the results by the client. Realtime monitoring is not supported
+ */
+async function queryWithClientGroups(api: Api, path: string, query: Query, options: QueryOptions) {
+    const { groups, skip, take, ...rest } = query;
+    const { results, context, stop } = await api.query(path, { ...rest, skip: 0, take: 0 }, {
+        ...options, snapshots: true, include: undefined, exclude: undefined, child_objects: true, monitor: false,
+    });
+    let matches = (results as Array<{ path: string, val: any }>).filter(result => matchesQuery(result.val, { filters: [], groups }));
+    if (skip > 0) {
+        matches = take < 0 ? matches.slice(0, -skip) : matches.slice(skip);
+    }
+    if (take !== 0) {
+        matches = take < 0 ? matches.slice(take) : matches.slice(0, take);
+    }
+    if (!options.snapshots) {
+        return { results: matches.map(match => match.path), context, stop };
+    }
+    const { include, exclude, child_objects } = options;
+    if (include || exclude || child_objects === false) {
+        // Load the requested data of each match
+        matches = await Promise.all(matches.map(async match => {
+            const { value } = await api.get(match.path, { include, exclude, child_objects });
+            return { path: match.path, val: value };
+        }));
+    }
+    return { results: matches, context, stop };
+}
+
+/**
+ * Gets the keyset pagination bound for a query result, sort key values, or page cursor
+ */
+function getQueryBound(order: QueryOrder[], source: DataSnapshot|any[]|string, inclusive: boolean): QueryBound {
+    if (typeof source === 'string') {
+        return { ...parsePageCursor(source), inclusive };
+    }
+    if (source instanceof Array) {
+        if (source.length > order.length) {
+            throw new Error(`Cannot use ${source.length} values for a query with ${order.length} sort keys`);
+        }
+        return { values: source, inclusive };
+    }
+    if (source instanceof DataSnapshot) {
+        const value = source.val();
+        const values = order.map(o => {
+            const keys = typeof o.key === 'number' ? [o.key] : PathInfo.getPathKeys(o.key);
+            return keys.reduce((val, key) => val !== null && typeof val === 'object' ? val[key] ?? null : null, value);
+        });
+        return { values, path: source.ref.path, inclusive };
+    }
+    throw new TypeError('Expected a snapshot, array of values or cursor');
+}
+
+/**
+ * Source of a keyset pagination bound set with `startAfter`, `startAt`, `endBefore` or `endAt`. It is resolved against
+ * the query's sort order when the query is executed, so the sort order can also be set after the bound
+ */
+type QueryBoundSource = { source: DataSnapshot|any[]|string, inclusive: boolean };
+
+/**
+ * Validates the source of a keyset pagination bound, see `QueryBoundSource`
+ */
+function getQueryBoundSource(source: DataSnapshot|any[]|string, inclusive: boolean): QueryBoundSource {
+    if (typeof source === 'string') {
+        parsePageCursor(source); // Throws if the cursor is invalid
+    }
+    else if (!(source instanceof Array) && !(source instanceof DataSnapshot)) {
+        throw new TypeError('Expected a snapshot, array of values or cursor');
+    }
+    return { source, inclusive };
+}
+
+/**
+ * Gets the query to pass to the Api, with its keyset pagination bounds resolved against its final sort order
+ */
+function getApiQuery(query: DataReferenceQuery): Query {
+    const { start, end, ...rest } = query[_private];
+    return {
+        ...rest,
+        start: start ? getQueryBound(rest.order, start.source, start.inclusive) : undefined,
+        end: end ? getQueryBound(rest.order, end.source, end.inclusive) : undefined,
+    };
+}
+
+/**
+ * Gets an opaque page cursor token for a keyset pagination bound
+ */
+function getPageCursor(bound: QueryBound) {
+    const json = JSON.stringify({ v: Transport.serialize2(bound.values), p: bound.path });
+    return encodeBase64Url(encodeString(json));
+}
+
+/**
+ * Parses a page cursor token created by `getPageCursor`
+ */
+function parsePageCursor(cursor: string): Omit<QueryBound, 'inclusive'> {
+    try {
+        const { v, p } = JSON.parse(decodeString(decodeBase64Url(cursor)));
+        return { values: Transport.deserialize2(v), path: p };
+    }
+    catch (err) {
+        throw new Error(`Invalid page cursor "${cursor}"`);
+    }
+}
+
 export class DataReferenceQuery {
     private [_private]: {
         filters: QueryFilter[],
         skip: number,
         take: number,
         order: QueryOrder[],
+        groups: QueryFilterGroup[],
+        start?: QueryBoundSource,
+        end?: QueryBoundSource,
         events: { [name: string]: RealtimeQueryEventCallback[] }
     };
     ref: DataReference;
@@ -1195,6 +1869,7 @@ export class DataReferenceQuery {
             skip: 0,
             take: 0,
             order: [],
+            groups: [],
             events: {},
         };
     }
@@ -1208,27 +1883,41 @@ export class DataReferenceQuery {
      * @param compare value to compare with
      */
     filter(key:string|number, op: QueryOperator, compare?: any): DataReferenceQuery {
-        if ((op === 'in' || op === '!in') && (!(compare instanceof Array) || compare.length === 0)) {
-            throw new Error(`${op} filter for ${key} must supply an Array compare argument containing at least 1 value`);
-        }
-        if ((op === 'between' || op === '!between') && (!(compare instanceof Array) || compare.length !== 2)) {
-            throw new Error(`${op} filter for ${key} must supply an Array compare argument containing 2 values`);
-        }
-        if ((op === 'matches' || op === '!matches') && !(compare instanceof RegExp)) {
-            throw new Error(`${op} filter for ${key} must supply a RegExp compare argument`);
-        }
-        // DISABLED 2019/10/23 because it is not fully implemented only works locally
-        // if (op === "custom" && typeof compare !== "function") {
-        //     throw `${op} filter for ${key} must supply a Function compare argument`;
-        // }
-        // DISABLED 2022/08/15, implemented by query.ts in acebase
-        // if ((op === 'contains' || op === '!contains') && ((typeof compare === 'object' && !(compare instanceof Array) && !(compare instanceof Date)) || (compare instanceof Array && compare.length === 0))) {
-        //     throw new Error(`${op} filter for ${key} must supply a simple value or (non-zero length) array compare argument`);
-        // }
+        validateFilter(key, op, compare);
         this[_private].filters.push({ key, op, compare });
         return this;
     }
 
+    /**
+     * Adds a group of filters of which at least one must match
+     * @param build function that adds the filters to the group
+     * @example
+     * // status == 'open' OR assignee == 'ewout'
+     * db.query('tickets').or(q => q.filter('status', '==', 'open').filter('assignee', '==', 'ewout'))
+     *
+     * // (status == 'open' AND priority > 3) OR assignee == 'ewout'
+     * db.query('tickets').or(q => q
+     *    .and(q => q.filter('status', '==', 'open').filter('priority', '>', 3))
+     *    .filter('assignee', '==', 'ewout')
+     * )
+     */
+    or(build: (group: QueryFilterBuilder) => any): DataReferenceQuery {
+        this[_private].groups.push(buildFilterGroup('or', build));
+        return this;
+    }
+
+    /**
+     * Adds a group of filters that must not all match
+     * @param build function that adds the filters to the group
+     * @example
+     * // NOT (status == 'closed' AND archived == true)
+     * db.query('tickets').not(q => q.filter('status', '==', 'closed').filter('archived', '==', true))
+     */
+    not(build: (group: QueryFilterBuilder) => any): DataReferenceQuery {
+        this[_private].groups.push(buildFilterGroup('not', build));
+        return this;
+    }
+
     /**
      * @deprecated use `.filter` instead
      */
@@ -1276,6 +1965,73 @@ export class DataReferenceQuery {
         return this.sort(key, ascending);
     }
 
+    /**
+     * Adds the filters, sort order, skip and take of a textual query to this query
+     * @param query textual query, see `parseQuery` for the syntax
+     * @example
+     * db.query('users').parse("age >= 18 and (city == 'Amsterdam' or city like 'Rot*') order by name desc take 20");
+     * // is the same as:
+     * db.query('users')
+     *  .filter('age', '>=', 18)
+     *  .or(q => q.filter('city', '==', 'Amsterdam').filter('city', 'like', 'Rot*'))
+     *  .sort('name', false)
+     *  .take(20);
+     */
+    parse(query: string): DataReferenceQuery {
+        const parsed = parseQuery(query);
+        if (parsed.filter) {
+            addParsedFilter(this, parsed.filter);
+        }
+        parsed.order.forEach(o => this.sort(o.key, o.ascending));
+        if (typeof parsed.skip === 'number') { this.skip(parsed.skip); }
+        if (typeof parsed.take === 'number') { this.take(parsed.take); }
+        return this;
+    }
+
+    /**
+     * Only returns results sorted after given result, for keyset (cursor based) pagination. Unlike using `skip`, this
+     * allows storage engines to seek directly and is stable while data changes. The bound is resolved against the
+     * query's sort order when it is executed.
+     * @param snapshotOrValues snapshot of a previous result, values of the sort keys (in sort order), or a `nextPageCursor`
+     * of previous results
+     * @example
+     * const query = db.query('books').sort('title').take(20);
+     * const page1 = await query.get();
+     * const page2 = await query.startAfter(page1.nextPageCursor).get();
+     * // or: query.startAfter(page1[page1.length - 1]), or query.startAfter(['Last title on page 1'])
+     */
+    startAfter(snapshotOrValues: DataSnapshot|any[]|string): DataReferenceQuery {
+        this[_private].start = getQueryBoundSource(snapshotOrValues, false);
+        return this;
+    }
+
+    /**
+     * Only returns results sorted at or after given result, for keyset (cursor based) pagination.
+     * @param snapshotOrValues snapshot of a result, values of the sort keys (in sort order), or a `nextPageCursor`
+     */
+    startAt(snapshotOrValues: DataSnapshot|any[]|string): DataReferenceQuery {
+        this[_private].start = getQueryBoundSource(snapshotOrValues, true);
+        return this;
+    }
+
+    /**
+     * Only returns results sorted before given result, for keyset (cursor based) pagination.
+     * @param snapshotOrValues snapshot of a result, values of the sort keys (in sort order), or a `nextPageCursor`
+     */
+    endBefore(snapshotOrValues: DataSnapshot|any[]|string): DataReferenceQuery {
+        this[_private].end = getQueryBoundSource(snapshotOrValues, false);
+        return this;
+    }
+
+    /**
+     * Only returns results sorted at or before given result, for keyset (cursor based) pagination.
+     * @param snapshotOrValues snapshot of a result, values of the sort keys (in sort order), or a `nextPageCursor`
+     */
+    endAt(snapshotOrValues: DataSnapshot|any[]|string): DataReferenceQuery {
+        this[_private].end = getQueryBoundSource(snapshotOrValues, true);
+        return this;
+    }
+
     /**
      * Executes the query
      * @returns returns a Promise that resolves with an array of DataSnapshots
@@ -1318,7 +2074,7 @@ export class DataReferenceQuery {
                     ? callback
                     : undefined;
 
-        const options: QueryOptions = new QueryDataRetrievalOptions(typeof optionsOrCallback === 'object' ? optionsOrCallback : { snapshots: true, cache_mode: 'allow' });
+        const options: QueryOptions & Pick<QueryDataRetrievalOptions, 'expand' | 'expandDepth'> = new QueryDataRetrievalOptions(typeof optionsOrCallback === 'object' ? optionsOrCallback : { snapshots: true, cache_mode: 'allow' });
         options.allow_cache = options.cache_mode !== 'bypass'; // Backward compatibility when using older acebase-client
         options.eventHandler = ev => {
             // TODO: implement context for query events
@@ -1362,15 +2118,39 @@ export class DataReferenceQuery {
         // Stop realtime results if they are still enabled on a previous .get on this instance
         this.stop();
 
-        // NOTE: returning promise here, regardless of callback argument. Good argument to refactor method to async/await soon
         const db = this.ref.db;
-        return db.api.query(this.ref.path, this[_private], options)
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(getAbortError(signal));
+        }
+        if ((this[_private].start || this[_private].end) && !db.api.supportsQueryFeature('bounds')) {
+            return Promise.reject(new Error('The database does not support keyset pagination (startAfter, startAt, endBefore, endAt)'));
+        }
+        let query: Query;
+        try {
+            query = getApiQuery(this);
+        }
+        catch (err) {
+            return Promise.reject(err);
+        }
+        const clientGroups = hasClientGroups(db.api, query);
+        if (clientGroups && (options.monitor.add || options.monitor.change || options.monitor.remove)) {
+            return Promise.reject(new Error('The database does not support realtime queries with filter groups (or, not)'));
+        }
+
+        // NOTE: returning promise here, regardless of callback argument. Good argument to refactor method to async/await soon
+        const promise = (clientGroups ? queryWithClientGroups(db.api, this.ref.path, query, options) : db.api.query(this.ref.path, query, options))
             .catch(err => {
                 throw new Error(err);
             })
             .then(res => {
                 const { stop } = res;
                 let { results, context } = res;
+                if (signal?.aborted) {
+                    // Aborted while the query was running, don't keep monitoring realtime changes
+                    stop().catch(() => { /* ignore */ });
+                    throw getAbortError(signal);
+                }
                 this.stop = async () => {
                     await stop();
                 };
@@ -1390,6 +2170,23 @@ export class DataReferenceQuery {
                     return DataReferencesArray.from(refs);
                 }
             })
+            .then(async results => {
+                if (options.expand && results instanceof DataSnapshotsArray) {
+                    await expandSnapshots(db, results, options);
+                }
+                // Add a cursor for the next page if the query was limited and returned a full page, and the database can use it
+                const { take, order } = this[_private];
+                if (take > 0 && results.length === take && db.api.supportsQueryFeature('bounds')) {
+                    const last = results[results.length - 1];
+                    const hasValues = order.length === 0 || (options.snapshots && !options.include && !options.exclude && options.child_objects !== false);
+                    const snap = last instanceof DataSnapshot
+                        ? hasValues ? last : await last.ref.get({ include: order.map(o => o.key), signal })
+                        : hasValues ? new DataSnapshot(last, null) : await last.get({ include: order.map(o => o.key), signal });
+                    results.nextPageCursor = getPageCursor(getQueryBound(order, snap, false));
+                }
+                return results;
+            });
+        return abortable(promise, signal)
             .then(results => {
                 callback && callback(results);
                 return results;
@@ -1403,6 +2200,24 @@ export class DataReferenceQuery {
         // Overridden by .get
     }
 
+    /**
+     * Executes the query and keeps its results up to date with realtime changes, in the query's sort order
+     * and within its skip/take window. Changes made to this query afterwards do not affect the live results
+     * @param options data retrieval options, results are always snapshots
+     * @returns returns a Promise that resolves once the results have loaded. Use `live.results` to get the current results,
+     * `live.subscribe(results => ...)` to get them each time they change, and `live.on('change', change => ...)` to get the
+     * inserted, removed, moved and updated results. Call `live.stop()` when you don't need them anymore
+     * @example
+     * const live = await db.query('messages').sort('sent', false).take(50).live();
+     * live.on('change', ({ inserted, removed, moved }) => {
+     *     // Animate list items
+     * });
+     */
+    live<T = any>(options?: QueryDataRetrievalOptions): Promise<LiveQueryResults<T>> {
+        const { order, skip, take } = this[_private];
+        return LiveQueryResults.create<T>(() => cloneQuery(this), { order: order.slice(), skip, take }, options);
+    }
+
     /**
      * Executes the query and returns references. Short for `.get({ snapshots: false })`
      * @param callback callback to use instead of returning a promise
@@ -1424,8 +2239,82 @@ export class DataReferenceQuery {
      * Executes the query and returns the number of results
      */
     async count(): Promise<number> {
-        const refs = await this.find();
-        return refs.length;
+        const result = await this.aggregate({ count: count() });
+        return result.count;
+    }
+
+    /**
+     * Calculates aggregates over the query results, without loading the results themselves. Any `skip` and `take` set
+     * on this query are respected.
+     * @param aggregates named aggregates to calculate
+     * @param options optional `signal` to cancel the operation with
+     * @example
+     * import { count, sum, groupBy } from 'acebase-core';
+     * const stats = await db.query('orders')
+     *    .filter('date', '>=', startOfMonth)
+     *    .aggregate({ total: sum('amount'), n: count(), byStatus: groupBy('status', count()) });
+     * // stats: { total: 1234.5, n: 29, byStatus: { paid: 25, pending: 4 } }
+     */
+    async aggregate<Spec extends AggregateSpec>(aggregates: Spec, options?: { signal?: AbortSignal }): Promise<AggregateResult<Spec>> {
+        validateAggregates(aggregates);
+        const db = this.ref.db;
+        if (!db.isReady) {
+            await db.ready();
+        }
+        throwIfAborted(options?.signal);
+        const query = getApiQuery(this);
+        if (hasClientGroups(db.api, query)) {
+            const { results } = await queryWithClientGroups(db.api, this.ref.path, query, { snapshots: true, signal: options?.signal });
+            return evaluateAggregates(aggregates, (results as Array<{ val: any }>).map(result => result.val));
+        }
+        const result = await abortable(db.api.aggregate(this.ref.path, query, aggregates, options), options?.signal);
+        return result as AggregateResult<Spec>;
+    }
+
+    /**
+     * Gets the unique values of a property of the query results with their counts, without loading the results themselves.
+     * Results that don't have the property are ignored. Any `skip` and `take` set on this query are respected.
+     * @param key key or relative path of the property
+     * @param options optional `signal` to cancel the operation with
+     * @returns returns a Promise that resolves with the unique values, sorted like query results would be sorted on them
+     * @example
+     * const cities = await db.query('users').filter('country', '==', 'NL').distinct('address/city');
+     * // cities: [{ value: 'Amsterdam', count: 120 }, { value: 'Rotterdam', count: 85 }, ...]
+     */
+    async distinct<Value = any>(key: string, options?: { signal?: AbortSignal }): Promise<DistinctValue<Value>[]> {
+        if (typeof key !== 'string' || key.length === 0) {
+            throw new TypeError('key must be a string');
+        }
+        const db = this.ref.db;
+        if (!db.isReady) {
+            await db.ready();
+        }
+        throwIfAborted(options?.signal);
+        const query = getApiQuery(this);
+        if (hasClientGroups(db.api, query)) {
+            const { results } = await queryWithClientGroups(db.api, this.ref.path, query, { snapshots: true, signal: options?.signal });
+            return evaluateDistinct(key, (results as Array<{ val: any }>).map(result => result.val));
+        }
+        return await abortable(db.api.distinct(this.ref.path, query, key, options), options?.signal);
+    }
+
+    /**
+     * Determines how the query would be executed without executing it: which indexes are used for each filter and sort key,
+     * which filters need scanning, the estimated cost, and indexes to create for better performance
+     * @example
+     * const plan = await db.query('users').filter('age', '>', 18).sort('name').explain();
+     * if (plan.scan) {
+     *     // Create suggested indexes
+     *     for (const s of plan.suggestions) {
+     *         await db.indexes.create(s.path, s.key, s.options);
+     *     }
+     * }
+     */
+    async explain(): Promise<QueryPlan> {
+        if (!this.ref.db.isReady) {
+            await this.ref.db.ready();
+        }
+        return this.ref.db.api.explain(this.ref.path, getApiQuery(this));
     }
 
     /**
@@ -1447,16 +2336,11 @@ export class DataReferenceQuery {
         const refs = await this.find();
 
         // Perform updates on each distinct parent collection (only 1 parent if this is not a wildcard path)
-        const parentUpdates = refs.reduce((parents, ref) => {
-            const parent = parents[ref.parent.path];
-            if (!parent) { parents[ref.parent.path] = [ref]; }
-            else { parent.push(ref); }
-            return parents;
-        }, {} as Record<string, DataReference[]>);
+        const parentUpdates = groupByParent(refs, ref => ref);
 
         const db = this.ref.db;
         const promises = Object.keys(parentUpdates).map(async (parentPath): Promise<QueryRemoveResult> => {
-            const updates = refs.reduce((updates, ref) => {
+            const updates = parentUpdates[parentPath].reduce((updates, ref) => {
                 updates[ref.key] = null;
                 return updates;
             }, {} as Record<string, null>);
@@ -1475,6 +2359,59 @@ export class DataReferenceQuery {
         return results;
     }
 
+    /**
+     * Executes the query, updates all matches in the database. The matches of each parent collection (only 1 parent if this
+     * is not a wildcard path) are updated with a single batch. If the database supports write conditions, each update is
+     * conditional: a batch fails with a `ConflictError` if any of its matches was changed or removed after the query was
+     * executed, so a removed match is not recreated with only the updated properties
+     * @param updates properties to update on each match, or a function that returns the properties to update for a snapshot
+     * of each match. The function can return `null` to skip a match
+     * @returns returns a Promise that resolves with the results of each parent collection, once all matches have been updated
+     * @example
+     * // Archive all closed tickets
+     * await db.query('tickets').filter('status', '==', 'closed').update({ archived: true });
+     *
+     * // Raise all prices by 10%
+     * await db.query('products').update(snap => ({ price: snap.val().price * 1.1 }));
+     */
+    async update<T = any>(updates: (Partial<T> & MultiPathUpdates) | QueryUpdateFunction<T>): Promise<QueryUpdateResult[]> {
+        if (typeof updates !== 'function' && (typeof updates !== 'object' || updates === null || updates instanceof Array)) {
+            throw new TypeError('updates must be an object or a function');
+        }
+        const db = this.ref.db;
+        if (!db.isReady) {
+            await db.ready();
+        }
+        const conditional = db.api.supportsWriteConditions();
+        const matches = typeof updates === 'function' || conditional
+            ? await this.get<T>()
+            : (await this.find<T>()).map(ref => new DataSnapshot<T>(ref, null));
+
+        const parentUpdates = groupByParent(matches, snap => snap.ref);
+        const promises = Object.keys(parentUpdates).map(async (parentPath): Promise<QueryUpdateResult> => {
+            const ref = db.ref(parentPath);
+            const updated = [] as DataReference[];
+            try {
+                const batch = db.batch();
+                for (const snap of parentUpdates[parentPath]) {
+                    const nodeUpdates = typeof updates === 'function' ? await updates(snap) : updates;
+                    if (typeof nodeUpdates !== 'object' || nodeUpdates === null) { continue; }
+                    // Only update the match if it was not changed since the query was executed, or still has the value it had then
+                    const cursor: string = snap.context()?.acebase_cursor;
+                    const condition = !conditional ? undefined : cursor ? { ifCursor: cursor } : { ifMatch: snap.val() };
+                    batch.update(snap.ref, nodeUpdates, condition);
+                    updated.push(snap.ref);
+                }
+                await batch.commit();
+                return { ref, updated, success: true };
+            }
+            catch (error) {
+                return { ref, updated, success: false, error };
+            }
+        });
+        return await Promise.all(promises);
+    }
+
     /**
      * Subscribes to an event. Supported events are:
      *  "stats": receive information about query performance.
@@ -1546,50 +2483,215 @@ export class DataReferenceQuery {
     forEach<T = any>(callback: ForEachIteratorCallback<T>): Promise<ForEachIteratorResult>
     /**
      * @param options specify what data to load for each child. Eg `{ include: ['title', 'description'] }`
-     * will only load each child's title and description properties
+     * will only load each child's title and description properties. Use `concurrency` to load and process
+     * multiple children in parallel, eg `{ concurrency: 10 }`
      */
-    forEach<T = any>(options: DataRetrievalOptions, callback: ForEachIteratorCallback<T>): Promise<ForEachIteratorResult>;
-    async forEach<T = any>(callbackOrOptions: ForEachIteratorCallback<T>|DataRetrievalOptions, callback?: ForEachIteratorCallback<T>): Promise<ForEachIteratorResult> {
-        let options;
+    forEach<T = any>(options: ForEachOptions, callback: ForEachIteratorCallback<T>): Promise<ForEachIteratorResult>;
+    async forEach<T = any>(callbackOrOptions: ForEachIteratorCallback<T>|ForEachOptions, callback?: ForEachIteratorCallback<T>): Promise<ForEachIteratorResult> {
+        let options: ForEachOptions;
         if (typeof callbackOrOptions === 'function') { callback = callbackOrOptions; }
         else { options = callbackOrOptions; }
         if (typeof callback !== 'function') { throw new TypeError('No callback function given'); }
 
+        const { concurrency = 1, ...retrievalOptions } = options ?? {};
+        const signal = options?.signal;
+        assertConcurrency(concurrency);
+
         // Get all query results. This could be tweaked further using paging
-        const refs = await this.find();
+        const refs = await this.get({ snapshots: false, signal }) as DataReferencesArray;
+
+        return iterateSnapshots(
+            refs.length,
+            i => refs[i].get(retrievalOptions),
+            callback,
+            { concurrency, signal },
+        );
+    }
+
+    /**
+     * Iterates through the query results, executing the query in pages of `pageSize` results instead of loading
+     * all results at once. Pages are loaded with keyset pagination (see `startAfter`), so results are not skipped or
+     * repeated if data changes while iterating. Databases that don't support keyset pagination are paged with `skip` and
+     * `take` instead. Any `skip` and `take` set on this query are respected.
+     * @example
+     * ```js
+     * const query = db.query('books').filter('category', '==', 'cooking').sort('title');
+     * for await (const bookSnapshot of query.iterate({ pageSize: 50 })) {
+     *    console.log(`Got book "${bookSnapshot.val().title}"`);
+     * }
+     * ```
+     */
+    async *iterate<T = any>(options: Omit<DataIteratorOptions, 'from'> = {}): AsyncGenerator<DataSnapshot<T>, void, undefined> {
+        const { pageSize = 100, ...retrievalOptions } = options;
+        if (typeof pageSize !== 'number' || pageSize < 1 || Math.floor(pageSize) !== pageSize) {
+            throw new TypeError('options.pageSize must be a positive integer');
+        }
+        if ('from' in options) {
+            throw new TypeError('options.from is not supported by query iterators');
+        }
+        const { filters, groups, order, skip, take, start, end } = this[_private];
+        if (typeof take !== 'number' || take < 0 || Math.floor(take) !== take) {
+            throw new TypeError('take must be a positive integer, or 0 to iterate all results');
+        }
+        const useBounds = this.ref.db.api.supportsQueryFeature('bounds');
+        let loaded = 0, cursor: string;
+        while (take === 0 || loaded < take) {
+            // Execute a copy of this query for each page, so this query's realtime subscriptions are not affected
+            const page = new DataReferenceQuery(this.ref);
+            page[_private].filters = filters.slice();
+            page[_private].groups = groups.slice();
+            page[_private].order = order.slice();
+            page[_private].start = cursor ? getQueryBoundSource(cursor, false) : start;
+            page[_private].end = end;
+            page[_private].skip = cursor ? 0 : useBounds ? skip : skip + loaded;
+            page[_private].take = take === 0 ? pageSize : Math.min(pageSize, take - loaded);
+            const snapshots = await page.get<T>({ ...retrievalOptions, snapshots: true });
+            loaded += snapshots.length;
+            for (const snapshot of snapshots) {
+                throwIfAborted(options.signal);
+                yield snapshot;
+            }
+            if (!useBounds) {
+                if (snapshots.length < page[_private].take) { break; }
+                continue;
+            }
+            if (!snapshots.nextPageCursor) {
+                break;
+            }
+            cursor = snapshots.nextPageCursor;
+        }
+    }
+
+    /**
+     * Iterates through the query results in pages of 100 results, use `iterate` to specify a different page size
+     * or what data to load.
+     * @example
+     * ```js
+     * for await (const bookSnapshot of db.query('books').filter('category', '==', 'cooking')) {
+     *    // ...
+     * }
+     * ```
+     */
+    [Symbol.asyncIterator]<T = any>(): AsyncGenerator<DataSnapshot<T>, void, undefined> {
+        return this.iterate<T>();
+    }
+}
 
-        const summary:ForEachIteratorResult = {
-            canceled: false,
-            total: refs.length,
-            processed: 0,
+/**
+ * Groups set, update and remove operations on multiple references, which are sent to the database as a single unit
+ * when `commit` is called: either all operations are applied, or none.
+ * @example
+ * const batch = db.batch();
+ * batch.set(db.ref('users/ewout'), { name: 'Ewout' });
+ * batch.update(db.ref('stats'), { users: 1 });
+ * batch.remove(db.ref('invites/ewout'));
+ * const cursor = await batch.commit();
+ */
+export class WriteBatch {
+    private [_private]: {
+        readonly operations: BatchOperation[],
+        readonly conditions: WriteCondition[],
+        context: any,
+        committed: boolean
+    };
+
+    constructor(public readonly db: AceBaseBase) {
+        this[_private] = {
+            operations: [],
+            conditions: [],
+            context: {},
+            committed: false,
         };
+    }
 
-        // Iterate through all children until callback returns false
-        for (let i = 0; i < refs.length; i++) {
-            const ref = refs[i];
+    /**
+     * Number of operations in this batch
+     */
+    get size() {
+        return this[_private].operations.length;
+    }
 
-            // Get child data
-            const snapshot = await ref.get(options);
-            summary.processed++;
+    private add(ref: DataReference, operations: BatchOperation[], options?: ConditionalWriteOptions) {
+        if (this[_private].committed) {
+            throw new Error('Cannot add operations to a batch that has already been committed');
+        }
+        if (ref.db !== this.db) {
+            throw new Error(`Reference "/${ref.path}" belongs to another database`);
+        }
+        this[_private].conditions.push(...getWriteConditions(ref, options) ?? []);
+        this[_private].operations.push(...operations);
+        // Use the contexts of all references that were used
+        Object.assign(this[_private].context, ref[_private].context);
+        return this;
+    }
 
-            if (!snapshot.exists()) {
-                // Was removed in the meantime, skip
-                continue;
-            }
+    /**
+     * Adds an operation that sets or overwrites the value of a node
+     * @param ref reference to the node
+     * @param value value to store
+     * @param options conditions the node must meet, the batch is rejected with a `ConflictError` if it doesn't
+     */
+    set<T = any>(ref: DataReference<T>, value: T, options?: ConditionalWriteOptions) {
+        return this.add(ref, [getSetOperation(ref, value)], options);
+    }
 
-            // Run callback
-            const result = await callback(snapshot);
-            if (result === false) {
-                summary.canceled = true;
-                break; // Stop looping
-            }
+    /**
+     * Adds an operation that updates properties of a node. Deep child paths can be used as keys, see `DataReference.update`
+     * @param ref reference to the node
+     * @param updates properties to update
+     * @param options conditions the node must meet, the batch is rejected with a `ConflictError` if it doesn't
+     */
+    update<T = any>(ref: DataReference<T>, updates: Partial<T> & MultiPathUpdates, options?: ConditionalWriteOptions) {
+        if (typeof updates === 'object' && updates !== null && Object.keys(updates).length === 0) {
+            return this; // Nothing to update
         }
+        return this.add(ref, getUpdateOperations(ref, updates), options);
+    }
 
-        return summary;
+    /**
+     * Adds an operation that removes a node
+     * @param ref reference to the node
+     * @param options conditions the node must meet, the batch is rejected with a `ConflictError` if it doesn't
+     */
+    remove(ref: DataReference, options?: ConditionalWriteOptions) {
+        if (ref.isWildcardPath) {
+            throw new Error(`Cannot remove wildcard path "/${ref.path}". Use query().remove instead`);
+        }
+        if (ref.parent === null) {
+            throw new Error('Cannot remove the root node');
+        }
+        return this.add(ref, [getSetOperation(ref, null)], options);
+    }
+
+    /**
+     * Sends all operations to the database as a single atomic operation. A batch can only be committed once. If any
+     * condition of its operations is not met, none of the operations are applied and the promise rejects with a `ConflictError`
+     * @returns returns a promise that resolves with the cursor of the batch, once all operations have been applied
+     */
+    async commit(): Promise<string> {
+        if (this[_private].committed) {
+            throw new Error('Batch has already been committed');
+        }
+        this[_private].committed = true;
+        if (this[_private].operations.length === 0) {
+            return null;
+        }
+        if (!this.db.isReady) {
+            await this.db.ready();
+        }
+        const { operations, conditions, context } = this[_private];
+        const { cursor } = await this.db.api.batch(operations, { context, conditions: conditions.length > 0 ? conditions : undefined });
+        return cursor;
     }
 }
 
 export class DataSnapshotsArray<T = any> extends Array<DataSnapshot<T>> {
+    /**
+     * Cursor to get the next page of results with `query.startAfter(cursor)`, if these results are a full page (`take`)
+     * of a query. Can be handed out to clients as an opaque token.
+     */
+    nextPageCursor?: string;
+
     static from<T = any>(snaps: DataSnapshot<T>[]) {
         const arr = new DataSnapshotsArray<T>(snaps.length);
         snaps.forEach((snap, i) => arr[i] = snap);
@@ -1601,6 +2703,12 @@ export class DataSnapshotsArray<T = any> extends Array<DataSnapshot<T>> {
 }
 
 export class DataReferencesArray<T = any> extends Array<DataReference<T>> {
+    /**
+     * Cursor to get the next page of results with `query.startAfter(cursor)`, if these results are a full page (`take`)
+     * of a query. Can be handed out to clients as an opaque token.
+     */
+    nextPageCursor?: string;
+
     static from<T = any>(refs: DataReference<T>[]) {
         const arr = new DataReferencesArray<T>(refs.length);
         refs.forEach((ref, i) => arr[i] = ref);
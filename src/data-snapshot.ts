@@ -26,7 +26,19 @@ function getChildren<T extends DataSnapshot = DataSnapshot>(snapshot: T): Array<
     return [];
 }
 
+const _expanded = Symbol('expanded');
+
+/**
+ * Sets the snapshots of expanded `PathReference` values, by their path relative to the snapshot
+ * @internal (for internal use)
+ */
+export function setExpandedSnapshots(snapshot: DataSnapshot, expanded: Map<string, DataSnapshot>) {
+    snapshot[_expanded] = expanded;
+}
+
 export class DataSnapshot<T = any> {
+    private [_expanded]?: Map<string, DataSnapshot>;
+
     /**
      * Reference to the node
      */
@@ -130,6 +142,19 @@ export class DataSnapshot<T = any> {
      * The key of the node's path
      */
     get key() { return this.ref.key; }
+
+    /**
+     * Gets a snapshot of the node a `PathReference` value refers to, if it was loaded with the `expand` option
+     * @param path path of the `PathReference` value, relative to this snapshot. References in expanded values are
+     * included in the path, eg `"author/company"` for the `company` reference of the expanded `author`
+     * @returns Returns a `DataSnapshot` of the referenced node, or `null` if the reference was not expanded
+     * @example
+     * const snap = await db.ref('posts/post1').get({ expand: ['author'] });
+     * const author = snap.expanded('author').val();
+     */
+    expanded<Value = any>(path: string): DataSnapshot<Value> | null {
+        return this[_expanded]?.get(PathInfo.get(path).path) ?? null;
+    }
 }
 
 export type IDataMutationsArray<Value = any, PrevValue = Value> = Array<{ target: Array<string|number>, val: Value, prev: PrevValue }>;
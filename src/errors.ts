@@ -0,0 +1,61 @@
+/**
+ * Error thrown when a conditional write is rejected because the target node was changed by someone else
+ * since the given cursor, or does not have the expected value anymore
+ */
+export class ConflictError extends Error {
+    readonly code = 'conflict';
+
+    /**
+     * @param path path of the node the condition was checked on
+     * @param message error message
+     */
+    constructor(readonly path: string, message = `Node "/${path}" was changed`) {
+        super(message);
+        this.name = 'ConflictError';
+    }
+}
+
+/**
+ * Gets the error an operation cancelled with given signal rejects with: the `reason` passed to `controller.abort(reason)`,
+ * or a standard `AbortError` `DOMException`
+ */
+export function getAbortError(signal: AbortSignal): Error {
+    if (typeof signal.reason !== 'undefined') {
+        return signal.reason;
+    }
+    if (typeof DOMException === 'function') {
+        return new DOMException('This operation was aborted', 'AbortError');
+    }
+    const error = new Error('This operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Throws an `AbortError` if given signal was aborted
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+        throw getAbortError(signal);
+    }
+}
+
+/**
+ * Settles like given promise, or rejects with an `AbortError` as soon as given signal is aborted
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        promise.catch(() => { /* ignore */ });
+        return Promise.reject(getAbortError(signal));
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(getAbortError(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
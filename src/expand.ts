@@ -0,0 +1,74 @@
+import type { AceBaseBase } from './acebase-base';
+import type { DataRetrievalOptions } from './data-reference';
+import { DataSnapshot, setExpandedSnapshots } from './data-snapshot';
+import { PathInfo } from './path-info';
+import { PathReference } from './path-reference';
+
+const isWildcardKey = (key: string|number) => typeof key === 'string' && (key === '*' || key[0] === '$');
+
+/**
+ * Checks if expand options are valid, throws an error if not
+ */
+export function validateExpandOptions(options: Pick<DataRetrievalOptions, 'expand' | 'expandDepth'>) {
+    if (typeof options.expand !== 'undefined' && (!(options.expand instanceof Array) || options.expand.some(path => typeof path !== 'string' || path.length === 0))) {
+        throw new TypeError('options.expand must be an array of paths');
+    }
+    if (typeof options.expandDepth !== 'undefined' && (!Number.isInteger(options.expandDepth) || options.expandDepth < 1)) {
+        throw new TypeError('options.expandDepth must be a positive integer');
+    }
+}
+
+/**
+ * Loads the nodes that `PathReference` values in snapshots refer to, and makes them available with `snapshot.expanded(path)`.
+ * Each referenced node is loaded once, even if it is referenced multiple times. References to a node that is already being
+ * expanded in the same chain (cycles) are not expanded
+ * @param db database instance
+ * @param snapshots snapshots to expand references of
+ * @param options data retrieval options with the paths to expand
+ */
+export async function expandSnapshots(db: AceBaseBase, snapshots: DataSnapshot[], options: Pick<DataRetrievalOptions, 'expand' | 'expandDepth' | 'cache_mode' | 'signal'>) {
+    const paths = options.expand.map(path => PathInfo.getPathKeys(path));
+    const depth = options.expandDepth ?? 1;
+    const loading = new Map<string, Promise<DataSnapshot>>();
+    const load = (path: string) => {
+        if (!loading.has(path)) {
+            loading.set(path, db.ref(path).get({ cache_mode: options.cache_mode, signal: options.signal }));
+        }
+        return loading.get(path);
+    };
+
+    const expand = async (expanded: Map<string, DataSnapshot>, value: any, trail: Array<string|number>, keys: Array<string|number>, chain: string[], level: number): Promise<void> => {
+        if (value instanceof PathReference) {
+            const path = PathInfo.get(value.path).path;
+            if (chain.includes(path)) {
+                return; // Cycle
+            }
+            const snap = await load(path);
+            expanded.set(PathInfo.get(trail).path, snap);
+            if (keys.length > 0) {
+                // Continue with the rest of the path in the referenced value, eg "company" of "author/company"
+                await expand(expanded, snap.val(), trail, keys, chain.concat(path), level);
+            }
+            else if (level < depth) {
+                // Expand references in the referenced value too
+                await Promise.all(paths.map(keys => expand(expanded, snap.val(), trail, keys, chain.concat(path), level + 1)));
+            }
+            return;
+        }
+        if (keys.length === 0 || typeof value !== 'object' || value === null) {
+            return;
+        }
+        const [key, ...childKeys] = keys;
+        const children = isWildcardKey(key)
+            ? value instanceof Array ? value.map((v, i) => i) : Object.keys(value)
+            : key in value ? [key] : [];
+        await Promise.all(children.map(child => expand(expanded, value[child], trail.concat(child), childKeys, chain, level)));
+    };
+
+    await Promise.all(snapshots.map(async snapshot => {
+        const expanded = new Map<string, DataSnapshot>();
+        const value = snapshot.val();
+        await Promise.all(paths.map(keys => expand(expanded, value, [], keys, [snapshot.ref.path], 1)));
+        setExpandedSnapshots(snapshot, expanded);
+    }));
+}
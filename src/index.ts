@@ -1,13 +1,16 @@
 export { AceBaseBase, AceBaseBaseSettings } from './acebase-base';
 export { Api, IStreamLike, EventSubscriptionSettings, EventSubscriptionCallback, ReflectionType, StreamReadFunction, StreamWriteFunction,
-    TransactionLogFilter, Query, QueryOptions, QueryFilter, QueryOrder, IAceBaseSchemaInfo,
-    ValueMutation, ValueChange, IReflectionNodeInfo, IReflectionChildrenInfo } from './api';
-export { DataReference, DataReferenceQuery, DataRetrievalOptions, QueryDataRetrievalOptions, DataSnapshotsArray, DataReferencesArray, QueryOperator } from './data-reference';
+    TransactionLogFilter, Query, QueryOptions, QueryFilter, QueryFilterGroup, QueryOrder, QueryBound, QueryFeature, IAceBaseSchemaInfo,
+    ValueMutation, ValueChange, BatchOperation, WriteCondition, IReflectionNodeInfo, IReflectionChildrenInfo } from './api';
+export { DataReference, DataReferenceQuery, QueryFilterBuilder, ConditionalWriteOptions, DataRetrievalOptions, QueryDataRetrievalOptions, DataIteratorOptions, ForEachOptions, DataSnapshotsArray, DataReferencesArray, QueryOperator, MultiPathUpdates, WriteBatch,
+    QueryRemoveResult, QueryUpdateResult, QueryUpdateFunction } from './data-reference';
 export { DataSnapshot, MutationsDataSnapshot, IDataMutationsArray } from './data-snapshot';
 export { ILiveDataProxy, ILiveDataProxyValue, DataProxyOnChangeCallback, proxyAccess, OrderedCollectionProxy } from './data-proxy';
 export { DebugLogger, LoggingLevel } from './debug';
 export { ID } from './id';
+export { ConflictError } from './errors';
 export { PathReference } from './path-reference';
+export { ServerValue, ServerValueType } from './server-value';
 export { EventStream, EventPublisher, EventSubscription } from './subscription';
 export * as Transport from './transport';
 export { TypeMappings, TypeMappingOptions } from './type-mappings';
@@ -17,9 +20,11 @@ export { ascii85 } from './ascii85';
 export { SimpleCache } from './simple-cache';
 export { SimpleEventEmitter } from './simple-event-emitter';
 export { ColorStyle, Colorize } from './simple-colors';
-export { SchemaDefinition, ISchemaCheckResult } from './schema';
+export { SchemaDefinition, ISchemaCheckResult, ISchemaCheckOptions, ISchemaViolation, JSONSchema } from './schema';
+export { generateSchemaDeclarations } from './schema-declarations';
 export { IObservableLike, SimpleObservable } from './simple-observable';
 export { PartialArray } from './partial-array';
+export { MemoryApi, MemoryApiSettings, MemoryDb } from './memory-api';
 
 import { ObjectCollection } from './object-collection';
 /**
@@ -29,3 +34,11 @@ import { ObjectCollection } from './object-collection';
 export type IObjectCollection<T> = ObjectCollection<T>;
 export { ObjectCollection };
 export { LoggerPlugin } from './logger';
+export {
+    count, sum, avg, min, max, groupBy, evaluateAggregates, evaluateDistinct,
+    Aggregate, AggregateSpec, AggregateResult, AggregateValue, CountAggregate, ValueAggregate, ValueAggregateType, GroupByAggregate, DistinctValue,
+} from './aggregate';
+export { parseQuery, ParsedQuery, QueryExpression } from './query-parser';
+export { LiveQueryResults, LiveQueryChange, LiveQueryChangeCallback } from './live-query';
+export { getQueryPlan, QueryPlan, QueryPlanFilter, QueryPlanSort, QueryIndexSuggestion } from './query-plan';
+export { IndexDefinition, IndexAction, EnsureIndexesOptions, getIndexActions } from './indexes';
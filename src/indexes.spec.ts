@@ -0,0 +1,81 @@
+import { IDataIndex } from './api';
+import { getIndexActions } from './indexes';
+import { MemoryApi, MemoryDb } from './memory-api';
+
+const createIndex = (path: string, key: string, options: { type?: string, include?: string[], textLocale?: string } = {}): IDataIndex => ({
+    path, key, type: options.type ?? 'normal', includeKeys: options.include ?? [], textLocale: options.textLocale ?? 'en', caseSensitive: false,
+    indexMetadataKeys: [], fileName: `${path.replace(/\//g, '-')}-${key}-${options.type ?? 'normal'}.idx`, description: `index on ${path}/${key}`,
+});
+
+/**
+ * MemoryApi with index bookkeeping, to test index management
+ */
+class IndexedMemoryApi extends MemoryApi {
+    indexes: IDataIndex[] = [];
+    async getIndexes() { return this.indexes.slice(); }
+    async createIndex(path: string, key: string, options: { type?: string, include?: string[], textLocale?: string }) {
+        const index = createIndex(path, key, options);
+        this.indexes.push(index);
+        return index;
+    }
+    async deleteIndex(fileName: string) {
+        this.indexes = this.indexes.filter(index => index.fileName !== fileName);
+    }
+}
+
+describe('Index definitions', () => {
+    it('determines actions', () => {
+        const existing = [
+            createIndex('users', 'email'),
+            createIndex('users/$uid/posts', 'tags', { type: 'array' }),
+            createIndex('products', 'price', { include: ['name'] }),
+            createIndex('logs', 'date'),
+        ];
+        const actions = getIndexActions([
+            { path: 'users', key: 'email' },
+            { path: 'users/*/posts', key: 'tags', type: 'array' },
+            { path: 'users/*/posts', key: 'tags' }, // other type
+            { path: 'products', key: 'price', include: ['category', 'name'], textLocale: 'nl' },
+        ], existing);
+        expect(actions.map(a => [a.action, a.path, a.key, a.type, a.reason])).toEqual([
+            ['keep', 'users', 'email', 'normal', undefined],
+            ['keep', 'users/*/posts', 'tags', 'array', undefined],
+            ['create', 'users/*/posts', 'tags', 'normal', undefined],
+            ['rebuild', 'products', 'price', 'normal', 'include [name] -> [category, name], textLocale "en" -> "nl"'],
+            ['keep', 'logs', 'date', 'normal', 'not declared'],
+        ]);
+        expect(getIndexActions([], existing, true).map(a => a.action)).toEqual(['drop', 'drop', 'drop', 'drop']);
+        expect(() => getIndexActions([{ path: 'users' } as any], existing)).toThrowError(/must have a path and key/);
+        expect(() => getIndexActions([{ path: 'users/*/posts', key: 'tags' }, { path: 'users/$uid/posts', key: 'tags', include: ['date'] }], existing))
+            .toThrowError(/definition 1 declares the same index as definition 0/);
+
+        // config can't be compared with existing indexes
+        expect(getIndexActions([{ path: 'users', key: 'email', config: { minLength: 3 } }], existing).map(a => [a.action, a.reason]))
+            .toEqual([['keep', 'config not compared'], ['keep', 'not declared'], ['keep', 'not declared'], ['keep', 'not declared']]);
+    });
+
+    it('ensures indexes', async () => {
+        const db = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true }, new IndexedMemoryApi());
+        const api = db.api as IndexedMemoryApi;
+        await db.indexes.create('logs', 'date');
+        await db.indexes.create('products', 'price');
+        const definitions = [{ path: 'users', key: 'email' }, { path: 'products', key: 'price', include: ['name'] }];
+
+        const planned = await db.indexes.ensure(definitions, { drop: true, dryRun: true });
+        expect(planned.map(a => a.action)).toEqual(['create', 'rebuild', 'drop']);
+        expect(api.indexes.length).toBe(2);
+
+        const actions = await db.indexes.ensure(definitions, { drop: true });
+        expect(actions.map(a => a.action)).toEqual(['create', 'rebuild', 'drop']);
+        expect(actions[0].index?.path).toBe('users');
+        expect(api.indexes.map(index => [index.path, index.key, index.includeKeys])).toEqual([['users', 'email', []], ['products', 'price', ['name']]]);
+
+        expect((await db.indexes.ensure(definitions)).map(a => a.action)).toEqual(['keep', 'keep']);
+
+        // Failed rebuilds restore the previous index
+        const createIndex = api.createIndex.bind(api);
+        spyOn(api, 'createIndex').and.callFake((path, key, options) => options.include?.includes('fails') ? Promise.reject(new Error('Invalid key')) : createIndex(path, key, options));
+        await expectAsync(db.indexes.ensure([{ path: 'products', key: 'price', include: ['fails'] }])).toBeRejectedWithError(/Invalid key\. The previous index was restored/);
+        expect(api.indexes.map(index => [index.path, index.key, index.includeKeys])).toEqual([['users', 'email', []], ['products', 'price', ['name']]]);
+    });
+});
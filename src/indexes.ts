@@ -0,0 +1,131 @@
+import type { IDataIndex } from './api';
+import { PathInfo } from './path-info';
+
+/**
+ * Declaration of an index, see `db.indexes.create` for the meaning of the options
+ */
+export interface IndexDefinition {
+    /** path to the indexed collection, can include wildcards */
+    path: string;
+    /** key (property) to index */
+    key: string;
+    /** type of index, such as `fulltext`, `geo`, `array` or `normal` (default) */
+    type?: string;
+    /** keys to include in the index */
+    include?: string[];
+    /** default locale of indexed string values */
+    textLocale?: string;
+    /**
+     * additional index-specific configuration settings. Not compared with existing indexes, because these don't expose them:
+     * change the index type, include keys or locale to rebuild an index with another config
+     */
+    config?: any;
+}
+
+export interface IndexAction {
+    /**
+     * - `"create"`: the declared index did not exist
+     * - `"rebuild"`: the declared index existed with other options
+     * - `"drop"`: the index was not declared (only if `drop` option was used)
+     * - `"keep"`: the index exists as declared, or was not declared but not dropped
+     */
+    action: 'create' | 'rebuild' | 'drop' | 'keep';
+    path: string;
+    key: string;
+    type: string;
+    /**
+     * Why the action is taken, eg which options differ
+     */
+    reason?: string;
+    /**
+     * Definition of the index, if it was declared
+     */
+    definition?: IndexDefinition;
+    /**
+     * The existing index, if any
+     */
+    index?: IDataIndex;
+}
+
+export interface EnsureIndexesOptions {
+    /**
+     * Whether to delete existing indexes that are not declared
+     * @default false
+     */
+    drop?: boolean;
+
+    /**
+     * Whether to only determine the actions without taking them, eg to detect drift between environments
+     * @default false
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * Normalizes a (wildcard) path for comparison, wildcard keys `*` and `$var` are equivalent
+ */
+const normalizePath = (path: string) => PathInfo.get(PathInfo.getPathKeys(path).map(key => typeof key === 'string' && key[0] === '$' ? '*' : key)).path;
+
+/**
+ * Checks if index definitions are valid, throws an error if not
+ */
+export function validateIndexDefinitions(definitions: IndexDefinition[]) {
+    if (!(definitions instanceof Array)) {
+        throw new TypeError('definitions must be an array');
+    }
+    const ids = [] as string[];
+    definitions.forEach((d, i) => {
+        if (typeof d?.path !== 'string' || typeof d.key !== 'string' || d.key.length === 0) {
+            throw new TypeError(`Index definition ${i} must have a path and key`);
+        }
+        if (typeof d.include !== 'undefined' && (!(d.include instanceof Array) || d.include.some(key => typeof key !== 'string'))) {
+            throw new TypeError(`include of index definition ${i} must be an array of keys`);
+        }
+        const id = `${normalizePath(d.path)}/${d.key}:${d.type ?? 'normal'}`;
+        if (ids.includes(id)) {
+            throw new TypeError(`Index definition ${i} declares the same index as definition ${ids.indexOf(id)} (path "${d.path}", key "${d.key}", type "${d.type ?? 'normal'}")`);
+        }
+        ids.push(id);
+    });
+}
+
+/**
+ * Determines which indexes to create, rebuild and drop to get from the existing indexes to the declared ones. Indexes
+ * are identified by path, key and type
+ * @param definitions declared indexes
+ * @param indexes existing indexes
+ * @param drop whether to drop existing indexes that are not declared
+ */
+export function getIndexActions(definitions: IndexDefinition[], indexes: IDataIndex[], drop = false): IndexAction[] {
+    validateIndexDefinitions(definitions);
+    const remaining = indexes.slice();
+    const actions = definitions.map((definition): IndexAction => {
+        const path = normalizePath(definition.path);
+        const type = definition.type ?? 'normal';
+        const i = remaining.findIndex(index => normalizePath(index.path) === path && index.key === definition.key && (index.type ?? 'normal') === type);
+        const target = { path: definition.path, key: definition.key, type, definition };
+        if (i < 0) {
+            return { action: 'create', ...target };
+        }
+        const [index] = remaining.splice(i, 1);
+        const changes = [] as string[];
+        const include = (definition.include ?? []).slice().sort();
+        const included = (index.includeKeys ?? []).slice().sort();
+        if (include.length !== included.length || include.some((key, i) => key !== included[i])) {
+            changes.push(`include [${included.join(', ')}] -> [${include.join(', ')}]`);
+        }
+        if (typeof definition.textLocale === 'string' && definition.textLocale !== index.textLocale) {
+            changes.push(`textLocale "${index.textLocale}" -> "${definition.textLocale}"`);
+        }
+        if (changes.length > 0) {
+            return { action: 'rebuild', ...target, index, reason: changes.join(', ') };
+        }
+        return typeof definition.config === 'undefined'
+            ? { action: 'keep', ...target, index }
+            : { action: 'keep', ...target, index, reason: 'config not compared' };
+    });
+    remaining.forEach(index => {
+        actions.push({ action: drop ? 'drop' : 'keep', path: index.path, key: index.key, type: index.type ?? 'normal', index, reason: 'not declared' });
+    });
+    return actions;
+}
@@ -0,0 +1,264 @@
+import { DataSnapshotsArray, QueryDataRetrievalOptions, RealtimeQueryEvent } from './data-reference';
+import type { DataReferenceQuery } from './data-reference';
+import type { DataSnapshot } from './data-snapshot';
+import type { QueryOrder } from './api';
+import { sortComparator } from './query';
+import { SimpleEventEmitter } from './simple-event-emitter';
+import type { IObservableLike, ISubscription } from './simple-observable';
+import { valuesAreEqual } from './utils';
+
+export interface LiveQueryChange<T = any> {
+    /**
+     * The new results
+     */
+    results: DataSnapshotsArray<T>;
+
+    /**
+     * Results that were added, `index` is their position in the new results
+     */
+    inserted: Array<{ index: number, snapshot: DataSnapshot<T> }>;
+
+    /**
+     * Results that were removed, `index` is their position in the previous results
+     */
+    removed: Array<{ index: number, snapshot: DataSnapshot<T> }>;
+
+    /**
+     * Results that moved to another position because their sort values changed: `from` is their position in the
+     * previous results, `to` their position in the new results
+     */
+    moved: Array<{ from: number, to: number, snapshot: DataSnapshot<T> }>;
+
+    /**
+     * Results that changed but kept their position, `index` is their position in the new results
+     */
+    updated: Array<{ index: number, snapshot: DataSnapshot<T> }>;
+}
+
+export type LiveQueryChangeCallback<T = any> = (change: LiveQueryChange<T>) => any;
+
+/**
+ * Settings of the query that determine which results are live, used by `query.live()`
+ */
+export interface LiveQueryWindow {
+    order: QueryOrder[];
+    skip: number;
+    take: number;
+}
+
+/**
+ * Gets the positions of the longest increasing subsequence of given numbers
+ */
+function getIncreasingSequence(numbers: number[]) {
+    const tails = [] as number[]; // positions of the smallest tail of each sequence length
+    const previous = [] as number[];
+    numbers.forEach((n, i) => {
+        let low = 0, high = tails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (numbers[tails[mid]] < n) { low = mid + 1; }
+            else { high = mid; }
+        }
+        previous[i] = low > 0 ? tails[low - 1] : -1;
+        tails[low] = i;
+    });
+    const positions = new Set<number>();
+    for (let i = tails[tails.length - 1] ?? -1; i >= 0; i = previous[i]) {
+        positions.add(i);
+    }
+    return positions;
+}
+
+/**
+ * Determines the insertions, removals, moves and updates between 2 lists of results
+ */
+export function getLiveQueryChange<T>(previous: DataSnapshot<T>[], results: DataSnapshotsArray<T>): LiveQueryChange<T> {
+    const change: LiveQueryChange<T> = { results, inserted: [], removed: [], moved: [], updated: [] };
+    const previousIndexes = new Map(previous.map((snap, index) => [snap.ref.path, index]));
+    const paths = new Set(results.map(snap => snap.ref.path));
+    previous.forEach((snapshot, index) => {
+        !paths.has(snapshot.ref.path) && change.removed.push({ index, snapshot });
+    });
+
+    // Results that kept their relative order did not move, the others did
+    const kept = results
+        .map((snapshot, index) => ({ snapshot, index, from: previousIndexes.get(snapshot.ref.path) }))
+        .filter(result => {
+            if (typeof result.from === 'number') { return true; }
+            change.inserted.push({ index: result.index, snapshot: result.snapshot });
+            return false;
+        });
+    const unmoved = getIncreasingSequence(kept.map(result => result.from));
+    kept.forEach((result, i) => {
+        const { snapshot, index, from } = result;
+        if (!unmoved.has(i)) {
+            change.moved.push({ from, to: index, snapshot });
+        }
+        else if (snapshot !== previous[from] && !valuesAreEqual(snapshot.val(), previous[from].val())) {
+            change.updated.push({ index, snapshot });
+        }
+    });
+    return change;
+}
+
+const _private = Symbol('private');
+
+/**
+ * Results of a realtime query that are kept up to date with add, change and remove events, in the query's sort order.
+ * Created with `query.live()`
+ */
+export class LiveQueryResults<T = any> implements IObservableLike<DataSnapshotsArray<T>> {
+    private [_private]: {
+        results: DataSnapshotsArray<T>,
+        query: DataReferenceQuery,
+        events: SimpleEventEmitter,
+        stopped: boolean,
+    };
+
+    /**
+     * Executes a query and keeps its results up to date
+     * @param createQuery function that creates a new copy of the query, 1 is used for monitoring, others to reload the results
+     * @param window sort order, skip and take of the query
+     * @param options data retrieval options
+     */
+    static async create<T = any>(createQuery: () => DataReferenceQuery, window: LiveQueryWindow, options?: QueryDataRetrievalOptions) {
+        const retrievalOptions = { ...options, snapshots: true as const };
+        const { order, skip, take } = window;
+
+        // Events can be applied to the results directly, unless the sort values of the results might not be loaded. Results
+        // that are a window of all matching nodes (skip, take) are sorted like the storage engine sorts them, and only need
+        // reloading when a node has to move into the window from outside of it
+        const isWindowed = skip !== 0 || take !== 0;
+        const isPartial = typeof options?.include !== 'undefined' || typeof options?.exclude !== 'undefined' || options?.child_objects === false;
+        const alwaysReload = skip < 0 || take < 0 || (order.length > 0 && isPartial);
+        const compare = sortComparator(order);
+        const sort = (a: DataSnapshot, b: DataSnapshot) => compare(a.val(), b.val()) || (a.ref.path < b.ref.path ? -1 : 1);
+
+        const live = new LiveQueryResults<T>();
+        const query = createQuery();
+        live[_private] = { results: new DataSnapshotsArray<T>(), query, events: new SimpleEventEmitter(), stopped: false };
+
+        const reload = () => createQuery().get<T>(retrievalOptions);
+        const getResults = async (event: RealtimeQueryEvent) => {
+            if (alwaysReload) {
+                return await reload();
+            }
+            const wasResult = live.results.some(snap => snap.ref.path === event.ref.path);
+            const results = live.results.filter(snap => snap.ref.path !== event.ref.path);
+            if (!isWindowed) {
+                if (event.name === 'remove') {
+                    return DataSnapshotsArray.from<T>(results);
+                }
+                if (order.length === 0) {
+                    // Unsorted results: new results are appended, changed results keep their position
+                    const index = live.results.findIndex(snap => snap.ref.path === event.ref.path);
+                    results.splice(index >= 0 ? index : results.length, 0, event.snapshot);
+                    return DataSnapshotsArray.from<T>(results);
+                }
+                const index = results.findIndex(snap => sort(event.snapshot, snap) < 0);
+                results.splice(index >= 0 ? index : results.length, 0, event.snapshot);
+                return DataSnapshotsArray.from<T>(results);
+            }
+
+            // A full window might not contain the last matching node, the next ones sort after it
+            const isFull = take > 0 && live.results.length === take;
+            if (!wasResult && skip > 0) {
+                // The node's previous position is unknown, it might have been before the window and shift it
+                return await reload();
+            }
+            if (event.name === 'remove') {
+                if (!wasResult) { return live.results; }
+                return isFull ? await reload() : DataSnapshotsArray.from<T>(results);
+            }
+            const last = results[results.length - 1];
+            if (isFull && (!last || sort(event.snapshot, last) > 0)) {
+                // Sorts after the window: a result moving out of it is replaced by the next node, others don't affect it
+                return wasResult ? await reload() : live.results;
+            }
+            if (skip > 0 && (results.length === 0 || sort(event.snapshot, results[0]) < 0)) {
+                // Moved before the window, the node before the window moves into it
+                return await reload();
+            }
+            const index = results.findIndex(snap => sort(event.snapshot, snap) < 0);
+            results.splice(index >= 0 ? index : results.length, 0, event.snapshot);
+            if (take > 0 && results.length > take) {
+                results.pop(); // The last result moves out of the window
+            }
+            return DataSnapshotsArray.from<T>(results);
+        };
+
+        // Apply events one at a time, in the order they were received, after the results have loaded
+        let queue: Promise<void>;
+        const onEvent = (event: RealtimeQueryEvent) => {
+            queue = queue.then(async () => {
+                if (live[_private].stopped) { return; }
+                const previous = live.results;
+                const results = await getResults(event);
+                if (live[_private].stopped) { return; }
+                const change = getLiveQueryChange(previous, results);
+                if (change.inserted.length + change.removed.length + change.moved.length + change.updated.length === 0) {
+                    return;
+                }
+                live[_private].results = results;
+                live[_private].events.emit('change', change);
+            }).catch(err => {
+                query.ref.db.logger.error(`Error updating live results of query on path "${query.ref.path}": ${err?.stack ?? err?.message ?? err}`);
+            });
+        };
+        query.on('add', onEvent).on('change', onEvent).on('remove', onEvent);
+        const loaded = query.get<T>(retrievalOptions).then(results => { live[_private].results = results; });
+        queue = loaded.catch(() => undefined);
+        await loaded;
+        return live;
+    }
+
+    /**
+     * The current results
+     */
+    get results() {
+        return this[_private].results;
+    }
+
+    /**
+     * Subscribes to changes of the results
+     * @param event `"change"`
+     * @param callback callback that receives the new results and the insertions, removals, moves and updates
+     * that lead to them. Can be used to animate list items in a UI
+     */
+    on(event: 'change', callback: LiveQueryChangeCallback<T>) {
+        this[_private].events.on(event, callback);
+        return this;
+    }
+
+    /**
+     * Unsubscribes from changes
+     * @param event `"change"`
+     * @param callback callback to remove, removes all callbacks if omitted
+     */
+    off(event: 'change', callback?: LiveQueryChangeCallback<T>) {
+        this[_private].events.off(event, callback);
+        return this;
+    }
+
+    /**
+     * Subscribes to the results: `subscriber` is called with the current results right away, and with the new results
+     * each time they change
+     */
+    subscribe(subscriber: (results: DataSnapshotsArray<T>) => any): ISubscription {
+        const callback = (change: LiveQueryChange<T>) => subscriber(change.results);
+        this.on('change', callback);
+        subscriber(this.results);
+        return {
+            unsubscribe: () => { this.off('change', callback); },
+        };
+    }
+
+    /**
+     * Stops keeping the results up to date
+     */
+    async stop() {
+        this[_private].stopped = true;
+        this[_private].events.off('change');
+        await this[_private].query.stop();
+    }
+}
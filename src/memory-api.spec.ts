@@ -0,0 +1,201 @@
+import { MemoryApi, MemoryDb } from './memory-api';
+import { ServerValue } from './server-value';
+
+describe('MemoryApi', () => {
+    let db: MemoryDb;
+    beforeEach(() => {
+        db = new MemoryDb({ logLevel: 'error', logColors: false, sponsor: true });
+    });
+
+    it('set, update and get', async () => {
+        await db.ref('users/ewout').set({ name: 'Ewout', address: { city: 'Amsterdam' }, removed: null });
+        let snap = await db.ref('users/ewout').get();
+        expect(snap.exists()).toBeTrue();
+        expect(snap.val()).toEqual({ name: 'Ewout', address: { city: 'Amsterdam' } });
+
+        await db.ref('users/ewout').update({ address: null, country: 'NL' });
+        snap = await db.ref('users/ewout').get();
+        expect(snap.val()).toEqual({ name: 'Ewout', country: 'NL' });
+
+        // Retrieved values must not be references to stored data
+        snap.val().name = 'Changed';
+        expect((await db.ref('users/ewout/name').get()).val()).toBe('Ewout');
+
+        await db.ref('users/ewout').remove();
+        expect(await db.ref('users/ewout').exists()).toBeFalse();
+    });
+
+    it('get with include, exclude and child_objects', async () => {
+        await db.ref('chats/chat1').set({
+            title: 'Chat',
+            members: { ewout: true, pete: true },
+            messages: { msg1: { text: 'Hi', sender: 'ewout' }, msg2: { text: 'Hello', sender: 'pete' } },
+        });
+        let snap = await db.ref('chats/chat1').get({ include: ['title', 'messages/*/text'] });
+        expect(snap.val()).toEqual({ title: 'Chat', messages: { msg1: { text: 'Hi' }, msg2: { text: 'Hello' } } });
+
+        snap = await db.ref('chats/chat1').get({ exclude: ['messages', 'members/pete'] });
+        expect(snap.val()).toEqual({ title: 'Chat', members: { ewout: true } });
+
+        snap = await db.ref('chats/chat1').get({ child_objects: false });
+        expect(snap.val()).toEqual({ title: 'Chat' });
+    });
+
+    it('arrays', async () => {
+        await db.ref('list').set({ items: ['a', 'b', 'c'] });
+        await db.ref('list/items').update({ 1: 'B' });
+        expect((await db.ref('list/items').get()).val()).toEqual(['a', 'B', 'c']);
+        expect((await db.ref('list/items[2]').get()).val()).toBe('c');
+    });
+
+    it('reflect', async () => {
+        await db.ref('users').set({ c: { name: 'C' }, a: { name: 'A' }, b: 'B', d: new Date(0) });
+        const info = await db.ref('users').reflect('info', { child_count: true });
+        expect(info.exists).toBeTrue();
+        expect(info.type).toBe('object');
+        expect(info.children).toEqual({ count: 4 });
+
+        const children = await db.ref('users').reflect('children', { limit: 2 });
+        expect(children.more).toBeTrue();
+        expect(children.list.map(child => child.key)).toEqual(['a', 'b']);
+        expect(children.list[1].value).toBe('B');
+
+        const next = await db.ref('users').reflect('children', { limit: 2, from: 'b' });
+        expect(next.more).toBeFalse();
+        expect(next.list.map(child => child.key)).toEqual(['c', 'd']);
+        expect(next.list[1].type).toBe('date');
+    });
+
+    it('export and import', async () => {
+        await db.ref('data').set({ text: 'Hello', date: new Date(0), list: [1, 2], nested: { big: BigInt(10) } });
+        let json = '';
+        await db.ref('data').export(str => { json += str; });
+        const parsed = JSON.parse(json);
+        expect(parsed.text).toBe('Hello');
+        expect(parsed.date).toEqual({ '.type': 'date', '.val': new Date(0).toISOString() });
+
+        let offset = 0;
+        await db.ref('copy').import(length => {
+            const chunk = json.slice(offset, offset + length);
+            offset += length;
+            return chunk;
+        });
+        const copy = (await db.ref('copy').get()).val();
+        expect(copy.date).toEqual(new Date(0));
+        expect(copy.list).toEqual([1, 2]);
+        expect(copy.nested.big).toBe(BigInt(10));
+
+        let plain = '';
+        await db.ref('data').export(str => { plain += str; }, { type_safe: false });
+        expect(JSON.parse(plain).date).toBe(new Date(0).toISOString());
+    });
+
+    it('mutations and changes', async () => {
+        const { cursor } = await db.ref('users/ewout').set({ name: 'Ewout' });
+        expect(typeof cursor).toBe('string');
+
+        const ref = await db.ref('users/ewout').update({ age: 42 });
+        await db.ref('users/pete').set({ name: 'Pete' });
+
+        let result = await db.ref('users').getMutations(cursor);
+        expect(result.used_cursor).toBe(cursor);
+        expect(result.mutations.length).toBe(2);
+        expect(result.mutations[0].path).toBe('users/ewout');
+        expect(result.mutations[0].changes.list).toEqual([{ target: ['age'], prev: null, val: 42 }]);
+
+        result = await db.ref('users/ewout').getMutations(cursor);
+        expect(result.mutations.length).toBe(1);
+
+        const changes = await db.ref('users').getChanges(cursor);
+        expect(changes.changes).toEqual([
+            { type: 'update', path: 'users/ewout', previous: { age: null }, value: { age: 42 }, context: jasmine.any(Object) },
+            { type: 'update', path: 'users', previous: { pete: null }, value: { pete: { name: 'Pete' } }, context: jasmine.any(Object) },
+        ]);
+        expect(ref.cursor).toBe(result.mutations[0].id);
+    });
+
+    it('mutations of multi-path updates', async () => {
+        const { cursor } = await db.ref('users/u1').set({ name: 'Ewout', address: { city: 'Amsterdam' } });
+        await db.ref('').update({ 'users/u1/address/city': 'Haarlem', 'posts/p1/author': 'Ewout' });
+
+        let result = await db.ref('').getMutations(cursor);
+        expect(result.mutations.length).toBe(1);
+        expect(result.mutations[0].type).toBe('update');
+        expect(result.mutations[0].value).toEqual({ 'users/u1/address/city': 'Haarlem', 'posts/p1/author': 'Ewout' });
+
+        result = await db.ref('users/u1').getMutations(cursor);
+        expect(result.mutations.length).toBe(1);
+        expect(result.mutations[0]).toEqual(jasmine.objectContaining({ type: 'set', path: 'users/u1/address/city', value: 'Haarlem' }));
+
+        const changes = await db.ref('users').getChanges(cursor);
+        expect(changes.changes).toEqual([
+            { type: 'update', path: 'users/u1/address', previous: { city: 'Amsterdam' }, value: { city: 'Haarlem' }, context: jasmine.any(Object) },
+        ]);
+    });
+
+    it('server values', async () => {
+        const ref = db.ref('users/ewout');
+        await ref.set({ visits: 1, roles: ['user'], big: BigInt(1) });
+        const before = Date.now();
+        await ref.update({
+            visits: ServerValue.increment(),
+            roles: ServerValue.arrayUnion('admin', 'user'),
+            big: ServerValue.increment(BigInt(9)),
+            lastSeen: ServerValue.timestamp(),
+            stats: { logins: ServerValue.increment(5), since: ServerValue.timestamp() },
+        });
+        let val = (await ref.get()).val();
+        expect(val.visits).toBe(2);
+        expect(val.roles).toEqual(['user', 'admin']);
+        expect(val.big).toBe(BigInt(10));
+        expect(val.lastSeen).toBeInstanceOf(Date);
+        expect(val.lastSeen.getTime()).toBeGreaterThanOrEqual(before);
+        expect(val.stats).toEqual({ logins: 5, since: val.lastSeen });
+
+        await ref.update({ visits: ServerValue.increment(-3), roles: ServerValue.arrayRemove('user') });
+        await ref.child('stats/logins').set(ServerValue.increment(1));
+        val = (await ref.get()).val();
+        expect(val.visits).toBe(-1);
+        expect(val.roles).toEqual(['admin']);
+        expect(val.stats.logins).toBe(6);
+
+        // Resolved values must pass schema checks
+        await db.schema.set('counters/$id', 'number');
+        await expectAsync(db.ref('counters/c1').set(ServerValue.increment(1))).toBeResolved();
+        await expectAsync(db.ref('counters/c1').set(ServerValue.timestamp())).toBeRejected();
+        expect((await db.ref('counters/c1').get()).val()).toBe(1);
+    });
+
+    it('logs with its logger', async () => {
+        const logger = jasmine.createSpyObj('logger', ['trace', 'debug', 'info', 'warn', 'error', 'fatal']);
+        const api = new MemoryApi({ logger });
+        api.subscribe('users', 'value', () => { throw new Error('Callback failed'); });
+        await api.set('users/ewout', { name: 'Ewout' });
+        expect(logger.error).toHaveBeenCalledWith('Error in event callback for path "/users":', jasmine.any(Error));
+
+        await api.setSchema('users/$uid', { name: 'string' }, true);
+        await api.set('users/pete', { name: 5 });
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('schemas', async () => {
+        await db.schema.set('users/$uid', { name: 'string', 'age?': 'number' });
+        await expectAsync(db.ref('users/ewout').set({ name: 'Ewout', age: 42 })).toBeResolved();
+        await expectAsync(db.ref('users/pete').set({ name: 'Pete', age: '42' })).toBeRejected();
+        await expectAsync(db.ref('users').update({ pete: { age: 42 } })).toBeRejected();
+        await expectAsync(db.ref('users/ewout').update({ age: 'old' })).toBeRejected();
+        await expectAsync(db.ref('users/ewout/age').set(43)).toBeResolved();
+        await expectAsync(db.ref('users/ewout/age').set('43')).toBeRejected();
+        expect((await db.ref('users/ewout').get()).val()).toEqual({ name: 'Ewout', age: 43 });
+
+        // All violations of multiple children
+        const result = await db.schema.check('users', { pete: { age: '42' }, jack: { name: 5 } }, false, { all: true });
+        expect(result.ok).toBeFalse();
+        expect(result.violations.map(v => v.path)).toEqual(['users/pete/name', 'users/pete/age', 'users/jack/name']);
+        expect(await db.schema.check('users', { pete: { name: 'Pete' } }, false, { all: true })).toEqual({ ok: true, violations: [] });
+
+        const schemas = await db.schema.all();
+        expect(schemas.length).toBe(1);
+        expect(schemas[0].path).toBe('users/$uid');
+    });
+});
@@ -0,0 +1,969 @@
+import { AceBaseBase, AceBaseBaseSettings } from './acebase-base';
+import { Api } from './api';
+import type {
+    BatchOperation, EventSubscriptionCallback, IAceBaseSchemaInfo, IReflectionChildrenInfo, IReflectionNodeInfo,
+    Query, QueryBound, QueryFeature, QueryOptions, QueryOrder, ReflectionType, StreamReadFunction, StreamWriteFunction, TransactionLogFilter, ValueChange, ValueMutation, WriteCondition,
+} from './api';
+import { ascii85 } from './ascii85';
+import { DebugLogger } from './debug';
+import { ConflictError, throwIfAborted } from './errors';
+import { ID } from './id';
+import type { LoggerPlugin } from './logger';
+import { compareSortValues, matches as matchesQuery, sortComparator } from './query';
+import { PathInfo } from './path-info';
+import { PathReference } from './path-reference';
+import { SchemaDefinition, ISchemaCheckOptions, ISchemaCheckResult } from './schema';
+import { ServerValue } from './server-value';
+import * as Transport from './transport';
+import { cloneObject, compareValues, decodeString } from './utils';
+
+type NodeValueType = IReflectionNodeInfo['type'];
+type MutationsList = Array<{ target: Array<string|number>, prev: any, val: any }>;
+
+interface IMemorySubscription {
+    path: string;
+    event: string;
+    callback: EventSubscriptionCallback;
+}
+
+interface ITransactionLogItem {
+    id: string;
+    path: string;
+    type: 'set'|'update';
+    timestamp: number;
+    value: any;
+    context: any;
+    mutations: { path: string, list: MutationsList };
+}
+
+interface IEventTarget {
+    path: string;
+    value: any;
+    readonly previous: any;
+    /** keys of children that might have changed, all children are checked if not set */
+    childKeys?: Array<string|number>;
+}
+
+export class MemoryApiSettings {
+    /**
+     * Whether to keep a log of all mutations. Enables cursors, `getMutations` and `getChanges`
+     * @default true
+     */
+    transactionLogging = true;
+
+    /**
+     * How many times a transaction callback is run if the value keeps being changed while it runs. The transaction
+     * fails with a `ConflictError` after that
+     * @default 10
+     */
+    maxTransactionAttempts = 10;
+
+    /**
+     * Logger to use for errors in event callbacks and schema warnings, eg the `logger` of the database instance
+     * @default DebugLogger with log level 'log'
+     */
+    logger: LoggerPlugin = new DebugLogger('log', '[memory]');
+
+    constructor(settings: Partial<MemoryApiSettings> = {}) {
+        if (typeof settings !== 'object') { settings = {}; }
+        if (typeof settings.transactionLogging === 'boolean') { this.transactionLogging = settings.transactionLogging; }
+        if (typeof settings.maxTransactionAttempts === 'number' && settings.maxTransactionAttempts >= 1) { this.maxTransactionAttempts = settings.maxTransactionAttempts; }
+        if (typeof settings.logger === 'object') { this.logger = settings.logger; }
+    }
+}
+
+const isWildcardKey = (key: string|number) => typeof key === 'string' && (key === '*' || key[0] === '$');
+
+/**
+ * Whether given value is stored as a node with children (object or array)
+ */
+const hasChildNodes = (value: any) => value !== null && typeof value === 'object'
+    && !(value instanceof Date) && !(value instanceof ArrayBuffer) && !(value instanceof PathReference) && !(value instanceof RegExp);
+
+const getChildKeys = (value: any): Array<string|number> => {
+    if (!hasChildNodes(value)) { return []; }
+    if (value instanceof Array) { return value.map((v, i) => i); }
+    return Object.keys(value);
+};
+
+const getChildValue = (value: any, key: string|number) => {
+    if (!hasChildNodes(value)) { return null; }
+    const child = value[key];
+    return typeof child === 'undefined' ? null : child;
+};
+
+const getTargetValue = (value: any, keys: Array<string|number>) => keys.reduce((val, key) => getChildValue(val, key), value);
+
+function getValueType(value: any): NodeValueType {
+    if (value instanceof Array) { return 'array'; }
+    if (value instanceof Date) { return 'date'; }
+    if (value instanceof ArrayBuffer) { return 'binary'; }
+    if (value instanceof PathReference) { return 'reference'; }
+    switch (typeof value) {
+        case 'object': return 'object';
+        case 'number': return 'number';
+        case 'boolean': return 'boolean';
+        case 'string': return 'string';
+        case 'bigint': return 'bigint';
+        default: return 'unknown';
+    }
+}
+
+/**
+ * Clones given value and removes all `null` and `undefined` properties, they are not stored
+ */
+function prepareValue(value: any) {
+    const removeVoids = (val: any) => {
+        if (!hasChildNodes(val)) { return val; }
+        Object.keys(val).forEach(key => {
+            const child = val[key];
+            if (child === null || typeof child === 'undefined') {
+                if (!(val instanceof Array)) { delete val[key]; }
+            }
+            else {
+                removeVoids(child);
+            }
+        });
+        if (val instanceof Array) {
+            // Arrays can't have gaps
+            return val.filter(child => child !== null && typeof child !== 'undefined');
+        }
+        return val;
+    };
+    return removeVoids(cloneObject(value));
+}
+
+/**
+ * Applies include, exclude and child_objects data retrieval options to a (cloned) value
+ */
+function filterValue(value: any, options: { include?: Array<string|number>, exclude?: Array<string|number>, child_objects?: boolean }) {
+    if (!hasChildNodes(value) || !options) { return value; }
+    const toKeys = (paths: Array<string|number>) => (paths || []).map(path => typeof path === 'number' ? [path] : PathInfo.getPathKeys(path));
+    const include = toKeys(options.include), exclude = toKeys(options.exclude);
+    const process = (val: any, include: Array<Array<string|number>>, exclude: Array<Array<string|number>>, isTarget: boolean) => {
+        if (!hasChildNodes(val)) { return val; }
+        const isArray = val instanceof Array;
+        const result: any = isArray ? [] : {};
+        getChildKeys(val).forEach(key => {
+            const matches = (keys: Array<string|number>) => isWildcardKey(keys[0]) || keys[0] === key || (isArray && keys[0] === `[${key}]`);
+            const childInclude = include.filter(matches);
+            const childExclude = exclude.filter(matches);
+            if (include.length > 0 && childInclude.length === 0) { return; }
+            if (childExclude.some(keys => keys.length === 1)) { return; }
+            let child = val[key];
+            if (isTarget && options.child_objects === false && hasChildNodes(child)) { return; }
+            const deeperInclude = childInclude.some(keys => keys.length === 1) ? [] : childInclude.map(keys => keys.slice(1));
+            const deeperExclude = childExclude.map(keys => keys.slice(1));
+            if (deeperInclude.length > 0 || deeperExclude.length > 0) {
+                child = process(child, deeperInclude, deeperExclude, false);
+            }
+            isArray ? result.push(child) : result[key] = child;
+        });
+        return result;
+    };
+    return process(value, include, exclude, true);
+}
+
+/**
+ * Converts a stored value to plain JSON data, used by non type-safe exports
+ */
+function toPlainValue(value: any): any {
+    if (value instanceof Date) { return value.toISOString(); }
+    if (value instanceof ArrayBuffer) { return ascii85.encode(value); }
+    if (value instanceof PathReference) { return value.path; }
+    if (typeof value === 'bigint') { return value.toString(); }
+    return value;
+}
+
+const getSortKeys = (o: QueryOrder) => PathInfo.getPathKeys(typeof o.key === 'number' ? `[${o.key}]` : o.key);
+
+/**
+ * Compares a query match with a keyset pagination bound, returns a negative number if the match is sorted before the bound
+ */
+function compareToBound(match: { path: string, val: any }, bound: QueryBound, order: QueryOrder[]): number {
+    for (let i = 0; i < Math.min(bound.values.length, order.length); i++) {
+        const result = compareSortValues(getTargetValue(match.val, getSortKeys(order[i])), bound.values[i], order[i].ascending);
+        if (result !== 0) { return result; }
+    }
+    if (typeof bound.path !== 'string' || match.path === bound.path) { return 0; }
+    return match.path < bound.path ? -1 : 1;
+}
+
+/**
+ * In-memory implementation of the `Api` class. Stores all data in a plain object tree, and supports
+ * events, queries, transaction logging and schemas. Can be used for unit testing without a full database,
+ * see `MemoryDb`
+ */
+export class MemoryApi extends Api {
+    readonly settings: MemoryApiSettings;
+    private root: Record<string, any> = {};
+    private subscriptions: IMemorySubscription[] = [];
+    private transactionLog: ITransactionLogItem[] = [];
+    private schemas: Array<{ path: string, schema: SchemaDefinition }> = [];
+
+    constructor(settings?: Partial<MemoryApiSettings>) {
+        super();
+        this.settings = new MemoryApiSettings(settings);
+    }
+
+    /**
+     * Gets the stored value of a path, without cloning it
+     */
+    private getValue(path: string) {
+        return getTargetValue(this.root, PathInfo.getPathKeys(path));
+    }
+
+    /**
+     * Overwrites the stored value of a path, creating its ancestor nodes if they do not exist
+     */
+    private storeValue(path: string, value: any) {
+        const keys = PathInfo.getPathKeys(path);
+        if (keys.length === 0) {
+            this.root = value ?? {};
+            return;
+        }
+        let parent: any = this.root;
+        for (let i = 0; i < keys.length - 1; i++) {
+            const key = keys[i];
+            if (!hasChildNodes(parent[key])) {
+                if (value === null) { return; } // Nothing to remove
+                parent[key] = typeof keys[i + 1] === 'number' ? [] : {};
+            }
+            parent = parent[key];
+        }
+        const key = keys[keys.length - 1];
+        if (value !== null) {
+            parent[key] = value;
+        }
+        else if (parent instanceof Array && typeof key === 'number') {
+            parent.splice(key, 1);
+        }
+        else {
+            delete parent[key];
+        }
+    }
+
+    /**
+     * Performs one or more write operations as one atomic operation, with a single cursor and event notification
+     */
+    private async write(operations: BatchOperation[], options: { context?: any, conditions?: WriteCondition[], suppress_events?: boolean } = {}) {
+        operations = operations.map(op => ({ ...op, path: op.path.replace(/^\/|\/$/g, '') }));
+        for (const op of operations) {
+            if (PathInfo.getPathKeys(op.path).some(isWildcardKey)) {
+                throw new Error(`Cannot write to wildcard path "/${op.path}"`);
+            }
+            if (op.path === '' && op.type === 'set' && !hasChildNodes(op.value)) {
+                throw new Error('Root value must be an object');
+            }
+        }
+
+        // Get the deepest path all operations write to, and the targets that might change relative to it
+        const path = PathInfo.get(operations.slice(1).reduce((keys, op) => {
+            const opKeys = PathInfo.getPathKeys(op.path);
+            const index = keys.findIndex((key, i) => opKeys[i] !== key);
+            return index < 0 ? keys : keys.slice(0, index);
+        }, PathInfo.getPathKeys(operations[0].path))).path;
+        const pathLength = PathInfo.getPathKeys(path).length;
+        options.conditions?.forEach(condition => this.checkCondition(condition));
+        const current = this.getValue(path);
+        const previous = current === null ? null : cloneObject(current);
+
+        // Apply all operations synchronously, so they can't interleave with other writes
+        const targets = [] as Array<Array<string|number>>;
+        const timestamp = Date.now();
+        const values = [] as any[];
+        try {
+            operations.forEach(op => {
+                const opKeys = PathInfo.getPathKeys(op.path).slice(pathLength);
+                const opPrevious = this.getValue(op.path);
+                const value = ServerValue.resolveAll(op.value, opPrevious, timestamp);
+                values.push(value);
+                const validation = this.checkSchema(op.path, value, op.type === 'update');
+                if (!validation.ok) {
+                    throw new Error(`Schema validation failed: ${validation.reason}`);
+                }
+                if (op.type === 'set') {
+                    targets.push(opKeys);
+                    this.storeValue(op.path, value === null ? null : prepareValue(value));
+                    return;
+                }
+                const updates = prepareValue(value);
+                const isArray = opPrevious instanceof Array;
+                let newValue = isArray ? opPrevious.slice() : hasChildNodes(opPrevious) ? Object.assign({}, opPrevious) : {};
+                Object.keys(value).forEach(key => {
+                    const childKey = isArray ? parseInt(key) : key;
+                    const val = getChildValue(updates, key);
+                    if (val === null) { delete newValue[childKey]; }
+                    else { newValue[childKey] = val; }
+                    targets.push(opKeys.concat(childKey));
+                });
+                if (isArray) { newValue = (newValue as any[]).filter(child => typeof child !== 'undefined'); }
+                this.storeValue(op.path, newValue);
+            });
+        }
+        catch (err) {
+            // Rollback
+            this.storeValue(path, previous);
+            throw err;
+        }
+
+        // Get changes of all targets that are not descendants of other targets
+        const value = this.getValue(path);
+        const isOnTrail = (keys: Array<string|number>, ancestor: Array<string|number>) => ancestor.length <= keys.length && ancestor.every((key, i) => keys[i] === key);
+        const list: MutationsList = targets
+            .filter((keys, i) => !targets.some((other, j) => other.length < keys.length ? isOnTrail(keys, other) : j < i && other.length === keys.length && isOnTrail(keys, other)))
+            .map(target => ({ target, prev: getTargetValue(previous, target), val: cloneObject(getTargetValue(value, target)) }))
+            .filter(m => compareValues(m.prev, m.val) !== 'identical');
+        if (list.length === 0) {
+            return { cursor: this.settings.transactionLogging ? ID.generate() : undefined };
+        }
+
+        const context = Object.assign({}, options.context);
+        let cursor: string;
+        if (this.settings.transactionLogging) {
+            cursor = ID.generate();
+            context.acebase_cursor = cursor;
+            const type = list.some(m => m.target.length === 0) ? 'set' : 'update';
+            const logValue = operations.length === 1
+                ? prepareValue(values[0])
+                : type === 'set'
+                    ? list[0].val
+                    : list.reduce((updates, m) => {
+                        updates[PathInfo.get(m.target).path] = m.val;
+                        return updates;
+                    }, {} as Record<string, any>);
+            this.transactionLog.push({
+                id: cursor, path, type, timestamp: Date.now(), value: logValue, context,
+                mutations: { path, list: cloneObject(list) },
+            });
+        }
+        if (options.suppress_events !== true) {
+            this.notify(path, previous, value, list, context);
+        }
+        return { cursor };
+    }
+
+    /**
+     * Checks if a node meets the condition of a write operation, throws a `ConflictError` if it doesn't
+     */
+    private checkCondition(condition: WriteCondition) {
+        const path = condition.path.replace(/^\/|\/$/g, '');
+        if (typeof condition.ifCursor === 'string') {
+            if (!this.settings.transactionLogging) {
+                throw new Error('Transaction logging is not enabled, cannot check cursor');
+            }
+            const pathInfo = PathInfo.get(path);
+            const changed = this.transactionLog.some(item => item.id > condition.ifCursor
+                && item.mutations.list.some(m => pathInfo.isOnTrailOf(PathInfo.get(item.path).child(m.target))));
+            if (changed) {
+                throw new ConflictError(path, `Node "/${path}" was changed since cursor ${condition.ifCursor}`);
+            }
+        }
+        if (typeof condition.ifMatch !== 'undefined') {
+            const expected = condition.ifMatch === null ? null : prepareValue(condition.ifMatch);
+            if (compareValues(this.getValue(path), expected) !== 'identical') {
+                throw new ConflictError(path, `Value of node "/${path}" does not match the expected value`);
+            }
+        }
+    }
+
+    /**
+     * Gets the nodes a subscription on `subscriptionPath` targets for a write on `writePath`
+     */
+    private getEventTargets(subscriptionPath: string, writePath: string, previous: any, value: any): IEventTarget[] {
+        const subscriptionKeys = PathInfo.getPathKeys(subscriptionPath);
+        const writeKeys = PathInfo.getPathKeys(writePath);
+        if (subscriptionKeys.length <= writeKeys.length) {
+            // Subscription is on the written path, or on an ancestor
+            const targetPath = PathInfo.fillVariables(subscriptionPath, writePath);
+            const trailKeys = writeKeys.slice(subscriptionKeys.length);
+            if (trailKeys.length === 0) {
+                return [{ path: targetPath, value, previous }];
+            }
+            const current = this.getValue(targetPath);
+            return [{
+                path: targetPath,
+                value: current,
+                get previous() {
+                    // Reconstruct the previous value by replacing the written target with its previous value
+                    const clone = cloneObject(current) ?? (typeof trailKeys[0] === 'number' ? [] : {});
+                    let target = clone;
+                    trailKeys.slice(0, -1).forEach(key => {
+                        if (!hasChildNodes(target[key])) { target[key] = {}; }
+                        target = target[key];
+                    });
+                    const key = trailKeys[trailKeys.length - 1];
+                    if (previous === null) { delete target[key]; }
+                    else { target[key] = previous; }
+                    return getChildKeys(clone).length === 0 ? null : clone;
+                },
+                childKeys: [trailKeys[0]],
+            }];
+        }
+        // Subscription is on a descendant path, get all (wildcard) targets
+        const targets = [] as IEventTarget[];
+        const expand = (path: string, previous: any, value: any, keys: Array<string|number>) => {
+            if (keys.length === 0) {
+                targets.push({ path, value, previous });
+                return;
+            }
+            const key = keys[0];
+            const childKeys = isWildcardKey(key)
+                ? getChildKeys(previous).concat(getChildKeys(value)).filter((key, i, arr) => arr.indexOf(key) === i)
+                : [key];
+            childKeys.forEach(childKey => {
+                expand(PathInfo.getChildPath(path, childKey), getChildValue(previous, childKey), getChildValue(value, childKey), keys.slice(1));
+            });
+        };
+        expand(writePath, previous, value, subscriptionKeys.slice(writeKeys.length));
+        return targets;
+    }
+
+    /**
+     * Gets mutations of a write on `writePath` relative to `targetPath`
+     */
+    private getTargetMutations(targetPath: string, writePath: string, list: MutationsList) {
+        const targetKeys = PathInfo.getPathKeys(targetPath);
+        const writeKeys = PathInfo.getPathKeys(writePath);
+        return list.reduce((mutations, m) => {
+            const keys = writeKeys.concat(m.target);
+            if (keys.length <= targetKeys.length) {
+                // Mutation on target or ancestor
+                if (!keys.every((key, i) => targetKeys[i] === key)) { return mutations; }
+                const trailKeys = targetKeys.slice(keys.length);
+                const prev = getTargetValue(m.prev, trailKeys), val = getTargetValue(m.val, trailKeys);
+                if (compareValues(prev, val) !== 'identical') {
+                    mutations.push({ target: [], prev, val });
+                }
+            }
+            else if (targetKeys.every((key, i) => keys[i] === key)) {
+                // Mutation on descendant
+                mutations.push({ target: keys.slice(targetKeys.length), prev: m.prev, val: m.val });
+            }
+            return mutations;
+        }, [] as MutationsList);
+    }
+
+    /**
+     * Triggers event callbacks of all subscriptions affected by a write on `path`
+     */
+    private notify(path: string, previous: any, value: any, list: MutationsList, context: any) {
+        const run = (callback: EventSubscriptionCallback, path: string, value: any, previous: any) => {
+            try {
+                callback(null, path, cloneObject(value), cloneObject(previous), cloneObject(context));
+            }
+            catch (err) {
+                this.settings.logger.error(`Error in event callback for path "/${path}":`, err);
+            }
+        };
+        const pathInfo = PathInfo.get(path);
+        this.subscriptions
+            .filter(sub => pathInfo.isOnTrailOf(sub.path))
+            .forEach(sub => {
+                const event = sub.event.replace(/^notify_/, '');
+                const targets = this.getEventTargets(sub.path, path, previous, value);
+                targets.forEach(target => {
+                    switch (event) {
+                        case 'value': {
+                            if (compareValues(target.previous, target.value) !== 'identical') {
+                                run(sub.callback, target.path, target.value, target.previous);
+                            }
+                            break;
+                        }
+                        case 'child_added':
+                        case 'child_changed':
+                        case 'child_removed': {
+                            const keys = target.childKeys ?? getChildKeys(target.previous).concat(getChildKeys(target.value)).filter((key, i, arr) => arr.indexOf(key) === i);
+                            const previous = target.childKeys ? target.previous : undefined; // Only reconstruct previous value if needed
+                            keys.forEach(key => {
+                                const prev = getChildValue(previous === undefined ? target.previous : previous, key);
+                                const val = getChildValue(target.value, key);
+                                const childPath = PathInfo.getChildPath(target.path, key);
+                                if (event === 'child_added' && prev === null && val !== null) {
+                                    run(sub.callback, childPath, val, null);
+                                }
+                                else if (event === 'child_removed' && prev !== null && val === null) {
+                                    run(sub.callback, childPath, null, prev);
+                                }
+                                else if (event === 'child_changed' && prev !== null && val !== null && compareValues(prev, val) !== 'identical') {
+                                    run(sub.callback, childPath, val, prev);
+                                }
+                            });
+                            break;
+                        }
+                        case 'mutated': {
+                            this.getTargetMutations(target.path, path, list).forEach(m => {
+                                const mutationPath = m.target.length === 0 ? target.path : PathInfo.get(target.path).childPath(m.target);
+                                run(sub.callback, mutationPath, m.val, m.prev);
+                            });
+                            break;
+                        }
+                        case 'mutations': {
+                            const mutations = this.getTargetMutations(target.path, path, list);
+                            if (mutations.length > 0) {
+                                run(sub.callback, target.path, mutations, null);
+                            }
+                            break;
+                        }
+                    }
+                });
+            });
+    }
+
+    subscribe(path: string, event: string, callback: EventSubscriptionCallback) {
+        this.subscriptions.push({ path: path.replace(/^\/|\/$/g, ''), event, callback });
+    }
+
+    unsubscribe(path: string, event?: string, callback?: EventSubscriptionCallback) {
+        path = path.replace(/^\/|\/$/g, '');
+        this.subscriptions = this.subscriptions.filter(sub => sub.path !== path || (event && sub.event !== event) || (callback && sub.callback !== callback));
+    }
+
+    set(path: string, value: any, options: { context?: any, conditions?: WriteCondition[] } = {}) {
+        return this.write([{ type: 'set', path, value }], options);
+    }
+
+    update(path: string, updates: any, options: { context?: any, conditions?: WriteCondition[] } = {}) {
+        if (!hasChildNodes(updates) || updates instanceof Array) {
+            return this.set(path, updates, options);
+        }
+        return this.write([{ type: 'update', path, value: updates }], options);
+    }
+
+    batch(operations: BatchOperation[], options: { context?: any, conditions?: WriteCondition[] } = {}) {
+        if (operations.length === 0) {
+            return Promise.resolve({ cursor: undefined as string });
+        }
+        return this.write(operations, options);
+    }
+
+    async get(path: string, options?: { include?: Array<string|number>, exclude?: Array<string|number>, child_objects?: boolean, signal?: AbortSignal }) {
+        throwIfAborted(options?.signal);
+        const value = filterValue(cloneObject(this.getValue(path)), options);
+        const cursor = this.settings.transactionLogging ? ID.generate() : undefined;
+        const context = cursor ? { acebase_cursor: cursor } : {};
+        return { value, context, cursor };
+    }
+
+    supportsQueryFeature(feature: QueryFeature) {
+        return ['bounds', 'groups'].includes(feature);
+    }
+
+    supportsWriteConditions() {
+        return true;
+    }
+
+    async transaction(path: string, callback: (val: any) => any, options: { context?: any, conditions?: WriteCondition[] } = {}): Promise<{ cursor?: string }> {
+        const conditions = options.conditions ?? [];
+        for (let attempt = 1; ; attempt++) {
+            // Given conditions are not retried
+            conditions.forEach(condition => this.checkCondition(condition));
+            const current = cloneObject(this.getValue(path));
+            const newValue = await callback(cloneObject(current));
+            if (typeof newValue === 'undefined') {
+                // Canceled
+                return { cursor: undefined as string };
+            }
+            try {
+                // Callback might be async, only write if the value was not changed in the meantime
+                return await this.set(path, newValue, { ...options, conditions: [...conditions, { path, ifMatch: current }] });
+            }
+            catch (err) {
+                if (err instanceof ConflictError && attempt < this.settings.maxTransactionAttempts) {
+                    continue; // Retry
+                }
+                throw err;
+            }
+        }
+    }
+
+    async exists(path: string) {
+        return this.getValue(path) !== null;
+    }
+
+    /**
+     * Gets the paths and values of all existing nodes matching a (wildcard) path
+     */
+    private getNodes(path: string) {
+        const nodes = [] as Array<{ path: string, value: any }>;
+        const walk = (path: string, value: any, keys: Array<string|number>) => {
+            if (value === null) { return; }
+            if (keys.length === 0) {
+                nodes.push({ path, value });
+                return;
+            }
+            const key = keys[0];
+            const childKeys = isWildcardKey(key) ? getChildKeys(value) : [key];
+            childKeys.forEach(childKey => walk(PathInfo.getChildPath(path, childKey), getChildValue(value, childKey), keys.slice(1)));
+        };
+        walk('', this.root, PathInfo.getPathKeys(path));
+        return nodes;
+    }
+
+    async query(path: string, query: Query, options: QueryOptions = { snapshots: false }) {
+        throwIfAborted(options.signal);
+        const filters = { filters: query.filters.map(f => ({ ...f })), groups: query.groups ?? [] };
+        const loadOptions = { include: options.include, exclude: options.exclude, child_objects: options.child_objects };
+        let matches = this.getNodes(path).reduce((matches, collection) => {
+            getChildKeys(collection.value).forEach(key => {
+                const value = collection.value[key];
+                if (matchesQuery(value, filters)) {
+                    matches.push({ path: PathInfo.getChildPath(collection.path, key), val: value });
+                }
+            });
+            return matches;
+        }, [] as Array<{ path: string, val: any }>);
+
+        // Sort like the storage engine does. Pages of unordered results are sorted by path, so they don't overlap
+        if (query.order.length > 0 || query.start || query.end || query.skip || query.take) {
+            const compare = sortComparator(query.order);
+            matches.sort((a, b) => {
+                return compare(a.val, b.val) || (a.path < b.path ? -1 : 1); // Sort by path if property values are equal
+            });
+        }
+
+        // Seek keyset pagination bounds
+        if (query.start) {
+            const { start } = query;
+            matches = matches.filter(match => {
+                const result = compareToBound(match, start, query.order);
+                return result > 0 || (result === 0 && start.inclusive);
+            });
+        }
+        if (query.end) {
+            const { end } = query;
+            matches = matches.filter(match => {
+                const result = compareToBound(match, end, query.order);
+                return result < 0 || (result === 0 && end.inclusive);
+            });
+        }
+        if (query.skip > 0) {
+            matches = query.take < 0 ? matches.slice(0, -query.skip) : matches.slice(query.skip);
+        }
+        if (query.take !== 0) {
+            matches = query.take < 0 ? matches.slice(query.take) : matches.slice(0, query.take);
+        }
+
+        const context = this.settings.transactionLogging ? { acebase_cursor: ID.generate() } : {};
+        const results = options.snapshots
+            ? matches.map(match => ({ path: match.path, val: filterValue(cloneObject(match.val), loadOptions) }))
+            : matches.map(match => match.path);
+        let stop = async () => { /* no realtime monitoring */ };
+
+        const monitor = options.monitor === true ? { add: true, change: true, remove: true } : options.monitor;
+        if (typeof monitor === 'object' && (monitor.add || monitor.change || monitor.remove)) {
+            const matchedPaths = matches.map(match => match.path);
+            const emit = (name: 'add'|'change'|'remove', path: string, value: any) => {
+                const keepMonitoring = options.eventHandler({ name, path, value: options.snapshots ? filterValue(value, loadOptions) : null }) !== false;
+                if (!keepMonitoring) { stopMonitoring(); }
+            };
+            const childChangedCallback: EventSubscriptionCallback = (err, path, newValue, oldValue) => {
+                const wasMatch = matchedPaths.includes(path);
+                const isMatch = matchesQuery(newValue, filters);
+                if (isMatch && !wasMatch) {
+                    matchedPaths.push(path);
+                    monitor.add && emit('add', path, newValue);
+                }
+                else if (isMatch) {
+                    monitor.change && emit('change', path, newValue);
+                }
+                else if (wasMatch) {
+                    matchedPaths.splice(matchedPaths.indexOf(path), 1);
+                    monitor.remove && emit('remove', path, oldValue);
+                }
+            };
+            const childAddedCallback: EventSubscriptionCallback = (err, path, newValue) => {
+                if (!matchesQuery(newValue, filters)) { return; }
+                matchedPaths.push(path);
+                monitor.add && emit('add', path, newValue);
+            };
+            const childRemovedCallback: EventSubscriptionCallback = (err, path, newValue, oldValue) => {
+                if (!matchedPaths.includes(path)) { return; }
+                matchedPaths.splice(matchedPaths.indexOf(path), 1);
+                monitor.remove && emit('remove', path, oldValue);
+            };
+            const stopMonitoring = () => {
+                this.unsubscribe(path, 'child_changed', childChangedCallback);
+                this.unsubscribe(path, 'child_added', childAddedCallback);
+                this.unsubscribe(path, 'notify_child_removed', childRemovedCallback);
+            };
+            this.subscribe(path, 'child_changed', childChangedCallback);
+            this.subscribe(path, 'child_added', childAddedCallback);
+            this.subscribe(path, 'notify_child_removed', childRemovedCallback);
+            stop = async () => { stopMonitoring(); };
+        }
+        return { results, context, stop };
+    }
+
+    reflect(path: string, type: 'children', args: any): Promise<IReflectionChildrenInfo>;
+    reflect(path: string, type: 'info', args: any): Promise<IReflectionNodeInfo>;
+    reflect(path: string, type: ReflectionType, args: any): Promise<any>;
+    async reflect(path: string, type: ReflectionType, args: any = {}) {
+        const value = this.getValue(path);
+        const getChildren = (limit = 50, skip = 0, from?: string|number) => {
+            let keys = getChildKeys(value);
+            if (!(value instanceof Array)) {
+                // Sort keys so `from` can be used for paging
+                keys.sort((a, b) => a < b ? -1 : 1);
+            }
+            if (typeof from === 'number' || typeof from === 'string') {
+                keys = keys.filter(key => value instanceof Array ? (key as number) > Number(from) : key > from);
+            }
+            const list = keys.slice(skip, limit > 0 ? skip + limit : undefined).map(key => {
+                const child = value[key];
+                const info: IReflectionChildrenInfo['list'][number] = { key, type: getValueType(child) };
+                if (!hasChildNodes(child) || getChildKeys(child).length === 0) {
+                    // Include small values
+                    const isSmall = !(typeof child === 'string' && child.length > 50) && !(child instanceof ArrayBuffer && child.byteLength > 50);
+                    if (isSmall) { info.value = cloneObject(child); }
+                }
+                return info;
+            });
+            return { more: limit > 0 && keys.length > skip + limit, list };
+        };
+        switch (type) {
+            case 'children': {
+                return getChildren(args.limit, args.skip, args.from);
+            }
+            case 'info': {
+                const exists = value !== null;
+                const info: IReflectionNodeInfo = {
+                    key: PathInfo.get(path).key ?? '',
+                    exists,
+                    type: exists ? getValueType(value) : undefined,
+                };
+                if (exists && !hasChildNodes(value)) {
+                    info.value = cloneObject(value);
+                }
+                if (args.child_count === true) {
+                    info.children = { count: getChildKeys(value).length };
+                }
+                else if (typeof args.child_limit === 'number' && args.child_limit > 0) {
+                    info.children = getChildren(args.child_limit, args.child_skip, args.child_from);
+                }
+                return info;
+            }
+        }
+    }
+
+    async export(path: string, write: StreamWriteFunction, options: { format?: 'json', type_safe?: boolean, signal?: AbortSignal } = { format: 'json', type_safe: true }) {
+        if (options?.format && options.format !== 'json') {
+            throw new Error('Only json output is currently supported');
+        }
+        const typeSafe = options?.type_safe !== false;
+        const writeValue = async (value: any) => {
+            throwIfAborted(options?.signal);
+            if (!hasChildNodes(value)) {
+                await write(JSON.stringify(typeSafe ? Transport.serialize2(value) : toPlainValue(value)));
+                return;
+            }
+            const isArray = value instanceof Array;
+            await write(isArray ? '[' : '{');
+            const keys = getChildKeys(value);
+            for (let i = 0; i < keys.length; i++) {
+                if (i > 0) { await write(','); }
+                if (!isArray) { await write(`${JSON.stringify(keys[i])}:`); }
+                await writeValue(value[keys[i]]);
+            }
+            await write(isArray ? ']' : '}');
+        };
+        await writeValue(this.getValue(path));
+    }
+
+    async import(path: string, read: StreamReadFunction, options: { format?: 'json', suppress_events?: boolean, method?: 'set'|'update', signal?: AbortSignal } = { format: 'json', suppress_events: false }) {
+        if (options?.format && options.format !== 'json') {
+            throw new Error('Only json input is currently supported');
+        }
+        let json = '';
+        while (true) {
+            throwIfAborted(options?.signal);
+            const chunk = await read(64 * 1024);
+            if (chunk === null || typeof chunk === 'undefined' || (typeof chunk === 'string' ? chunk.length : chunk.byteLength) === 0) {
+                break;
+            }
+            json += typeof chunk === 'string' ? chunk : decodeString(chunk);
+        }
+        const value = Transport.deserialize2(JSON.parse(json));
+        const method = options?.method === 'update' ? 'update' : 'set';
+        throwIfAborted(options?.signal); // Nothing is stored if aborted while reading
+        await this.write([{ type: method, path, value }], { suppress_events: options?.suppress_events === true });
+    }
+
+    async setSchema(path: string, schema: Record<string, any> | string, warnOnly = false) {
+        path = path.replace(/^\/|\/$/g, '');
+        this.schemas = this.schemas.filter(s => s.path !== path);
+        if (schema === null) {
+            return;
+        }
+        const definition = new SchemaDefinition(schema, {
+            warnOnly,
+            warnCallback: (message: string) => this.settings.logger.warn(message),
+        });
+        this.schemas.push({ path, schema: definition });
+    }
+
+    async getSchema(path: string): Promise<IAceBaseSchemaInfo> {
+        path = path.replace(/^\/|\/$/g, '');
+        const item = this.schemas.find(s => s.path === path);
+        return item ? { path, schema: item.schema.source as Record<string, any>|string, text: item.schema.text } : null;
+    }
+
+    async getSchemas(): Promise<IAceBaseSchemaInfo[]> {
+        return this.schemas.map(item => ({ path: item.path, schema: item.schema.source as Record<string, any>|string, text: item.schema.text }));
+    }
+
+    async validateSchema(path: string, value: any, isUpdate: boolean, options?: ISchemaCheckOptions): Promise<ISchemaCheckResult> {
+        return this.checkSchema(path, value, isUpdate, options);
+    }
+
+    private checkSchema(path: string, value: any, isUpdate: boolean, options?: ISchemaCheckOptions): ISchemaCheckResult {
+        // Unless all violations are collected, stop at the first failed check
+        const all = options?.all === true;
+        const results = [] as ISchemaCheckResult[];
+        const add = (result: ISchemaCheckResult) => {
+            results.push(result);
+            return all || result.ok;
+        };
+        const pathInfo = PathInfo.get(path);
+        this.schemas.filter(s => pathInfo.isOnTrailOf(s.path)).every(s => {
+            if (pathInfo.isDescendantOf(s.path)) {
+                // Given path is a descendant of this schema definition's path
+                const ancestorPath = PathInfo.fillVariables(s.path, path);
+                const trailKeys = pathInfo.keys.slice(PathInfo.getPathKeys(s.path).length);
+                return add(s.schema.check(ancestorPath, value, isUpdate, trailKeys, options));
+            }
+            // Given path is on the schema definition's path, or on a higher path
+            const trailKeys = PathInfo.getPathKeys(s.path).slice(pathInfo.keys.length);
+            const partial = isUpdate && trailKeys.length === 0;
+            const check = (path: string, value: any, trailKeys: Array<string|number>): boolean => {
+                if (trailKeys.length === 0) {
+                    return add(s.schema.check(path, value, partial, undefined, options));
+                }
+                if (!hasChildNodes(value)) {
+                    return true;
+                }
+                const key = trailKeys[0];
+                const childKeys = isWildcardKey(key) ? Object.keys(value) : key in value ? [key] : [];
+                return childKeys.every(childKey => check(PathInfo.getChildPath(path, childKey), value[childKey], trailKeys.slice(1)));
+            };
+            return check(path, value, trailKeys);
+        });
+        const failed = results.filter(result => !result.ok);
+        const warnings = results.filter(result => result.warning).map(result => result.warning);
+        const result: ISchemaCheckResult = failed.length === 0
+            ? { ok: true, ...(warnings.length > 0 && { warning: warnings.join('; ') }) }
+            : { ok: false, reason: failed.map(result => result.reason).join('; ') };
+        if (all) {
+            result.violations = results.reduce((violations, result) => violations.concat(result.violations ?? []), []);
+        }
+        return result;
+    }
+
+    /**
+     * Gets the transaction log items written after given cursor or timestamp
+     */
+    private getLogItems(filter: TransactionLogFilter) {
+        if (!this.settings.transactionLogging) {
+            throw new Error('Transaction logging is not enabled');
+        }
+        const cursor = 'cursor' in filter ? filter.cursor : null;
+        const timestamp = 'timestamp' in filter && typeof filter.timestamp === 'number' ? filter.timestamp : 0;
+        return this.transactionLog.filter(item => typeof cursor === 'string' ? item.id > cursor : item.timestamp >= timestamp);
+    }
+
+    async getMutations(filter: TransactionLogFilter): Promise<{ used_cursor: string | null, new_cursor: string, mutations: ValueMutation[] }> {
+        const targets = filter.for?.length > 0 ? filter.for : [{ path: filter.path ?? '', events: ['value'] }];
+        // Ignore target paths that are descendants of other target paths
+        const filterPaths = targets
+            .map(target => target.path.replace(/^\/|\/$/g, ''))
+            .filter((path, i, paths) => !paths.some(other => PathInfo.get(path).isDescendantOf(other)));
+        const mutations = [] as ValueMutation[];
+        this.getLogItems(filter).forEach(item => {
+            const itemPathInfo = PathInfo.get(item.path);
+            const filterPath = filterPaths.find(path => itemPathInfo.isOnTrailOf(path));
+            if (typeof filterPath !== 'string') { return; }
+            const mutation = { id: item.id, type: item.type, timestamp: item.timestamp, context: cloneObject(item.context) };
+            if (!PathInfo.get(filterPath).isDescendantOf(item.path)) {
+                // Mutation on filter path or its descendants: use entire mutation
+                mutations.push({ ...mutation, path: item.path, value: cloneObject(item.value), changes: cloneObject(item.mutations) });
+                return;
+            }
+            // Mutation on higher path: only use the changes made to the (wildcard) filter path targets
+            const getTree = (prop: 'prev'|'val') => item.mutations.list.reduce((tree, m) => {
+                if (m.target.length === 0) { return m[prop]; }
+                let target = tree;
+                m.target.slice(0, -1).forEach(key => { target = target[key] ?? (target[key] = {}); });
+                target[m.target[m.target.length - 1]] = m[prop];
+                return tree;
+            }, {} as any);
+            this.getEventTargets(filterPath, item.path, getTree('prev'), getTree('val')).forEach(target => {
+                const list = this.getTargetMutations(target.path, item.path, item.mutations.list);
+                if (list.length === 1 && list[0].target.length === 0) {
+                    mutations.push({ ...mutation, type: 'set', path: target.path, value: cloneObject(target.value), changes: { path: target.path, list: cloneObject(list) } });
+                    return;
+                }
+                // Target is an ancestor of the changed nodes (multi-path update), use each change as a separate mutation
+                list.forEach(m => {
+                    const path = PathInfo.get(target.path).childPath(m.target);
+                    mutations.push({ ...mutation, type: 'set', path, value: cloneObject(m.val), changes: { path, list: [{ target: [], prev: cloneObject(m.prev), val: cloneObject(m.val) }] } });
+                });
+            });
+        });
+        const used_cursor = 'cursor' in filter ? filter.cursor : null;
+        return { used_cursor, new_cursor: ID.generate(), mutations };
+    }
+
+    async getChanges(filter: TransactionLogFilter): Promise<{ used_cursor: string | null, new_cursor: string, changes: ValueChange[] }> {
+        const { used_cursor, new_cursor, mutations } = await this.getMutations(filter);
+        // Get effective changes as 'set' operations on their target paths, overriding previous changes on the same or descendant paths
+        const sets = mutations.reduce((sets, item) => {
+            const basePathInfo = PathInfo.get(item.changes.path);
+            item.changes.list.forEach(m => {
+                const pathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
+                const existing = sets.find(s => s.pathInfo.equals(pathInfo));
+                const prev = existing ? existing.previous : m.prev ?? null; // Keep the first previous value
+                sets = sets.filter(s => !s.pathInfo.equals(pathInfo) && !s.pathInfo.isDescendantOf(pathInfo));
+                sets.push({ pathInfo, previous: prev, value: m.val ?? null, context: item.context });
+            });
+            return sets;
+        }, [] as Array<{ pathInfo: PathInfo, previous: any, value: any, context: any }>);
+        // Merge 'set' operations on the same parent into 'update' operations
+        const changes = sets.reduce((changes, item) => {
+            if (item.pathInfo.path === '') {
+                changes.push({ type: 'set', path: '', previous: item.previous, value: item.value, context: item.context });
+                return changes;
+            }
+            const parentPath = item.pathInfo.parentPath;
+            const key = item.pathInfo.key;
+            const parentUpdate = changes.find(change => change.type === 'update' && change.path === parentPath);
+            if (parentUpdate) {
+                parentUpdate.value[key] = item.value;
+                parentUpdate.previous[key] = item.previous;
+                parentUpdate.context = item.context;
+            }
+            else {
+                changes.push({ type: 'update', path: parentPath, previous: { [key]: item.previous }, value: { [key]: item.value }, context: item.context });
+            }
+            return changes;
+        }, [] as ValueChange[]);
+        return { used_cursor, new_cursor, changes };
+    }
+}
+
+/**
+ * Database that stores all data in memory with a `MemoryApi`. Can be used for unit testing without a full database
+ * @example
+ * const db = new MemoryDb({ logLevel: 'error' });
+ * await db.ref('users/ewout').set({ name: 'Ewout' });
+ */
+export class MemoryDb extends AceBaseBase {
+    /**
+     * @param options database settings
+     * @param api api to use, eg a `MemoryApi` with other settings. A new `MemoryApi` that uses the database's logger by default
+     */
+    constructor(options: Partial<AceBaseBaseSettings> = {}, api?: MemoryApi) {
+        super('memory', options);
+        this.api = api ?? new MemoryApi({ logger: this.logger });
+        this.emit('ready');
+    }
+}
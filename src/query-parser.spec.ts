@@ -0,0 +1,64 @@
+import { parseQuery } from './query-parser';
+
+describe('Query parser', () => {
+    it('conditions and clauses', () => {
+        const query = parseQuery('age >= 18 and (city == \'Amsterdam\' or city like \'Rot*\') order by name desc, age take 20');
+        expect(query.filter).toEqual({
+            type: 'and', position: 0, expressions: [
+                { type: 'filter', key: 'age', op: '>=', compare: 18, position: 0 },
+                { type: 'or', position: 15, expressions: [
+                    { type: 'filter', key: 'city', op: '==', compare: 'Amsterdam', position: 15 },
+                    { type: 'filter', key: 'city', op: 'like', compare: 'Rot*', position: 38 },
+                ] },
+            ],
+        });
+        expect(query.order).toEqual([{ key: 'name', ascending: false }, { key: 'age', ascending: true }]);
+        expect(query.take).toBe(20);
+        expect(query.skip).toBeUndefined();
+
+        // Clauses only
+        expect(parseQuery('skip 10 TAKE 5')).toEqual({ order: [], skip: 10, take: 5 });
+
+        // "and" takes precedence over "or", "not" negates the next condition or group
+        expect(parseQuery('a == 1 or b == 2 and not c exists').filter).toEqual({
+            type: 'or', position: 0, expressions: [
+                { type: 'filter', key: 'a', op: '==', compare: 1, position: 0 },
+                { type: 'and', position: 10, expressions: [
+                    { type: 'filter', key: 'b', op: '==', compare: 2, position: 10 },
+                    { type: 'not', position: 21, expression: { type: 'filter', key: 'c', op: 'exists', position: 25 } },
+                ] },
+            ],
+        });
+    });
+
+    it('operators, keys and values', () => {
+        const filter = (query: string) => parseQuery(query).filter as any;
+
+        expect(filter('age between [18, 65]').compare).toEqual([18, 65]);
+        expect(filter('status !in [\'closed\', \'archived\']')).toEqual({ type: 'filter', key: 'status', op: '!in', compare: ['closed', 'archived'], position: 0 });
+        expect(filter('tags contains "admin"').op).toBe('contains');
+        expect(filter('email !exists').op).toBe('!exists');
+        expect(filter('bio fulltext:contains \'cook*\'').op).toBe('fulltext:contains');
+        expect(filter('location geo:nearby { lat: 52.37, long: 4.9, radius: 1000 }').compare).toEqual({ lat: 52.37, long: 4.9, radius: 1000 });
+        expect(filter('name matches /^ew/i').compare).toEqual(/^ew/i);
+        expect(filter('address/city == "Amsterdam"').key).toBe('address/city');
+        expect(filter('"first name" == \'Ewout\'').key).toBe('first name');
+        expect(filter('\'order\' == 1').key).toBe('order');
+        expect(filter('name == "It\\"s"').compare).toBe('It"s');
+        expect(filter('balance > 9007199254740993n').compare).toBe(BigInt('9007199254740993'));
+        expect(filter('born < Date("2000-01-01T00:00:00Z")').compare).toEqual(new Date('2000-01-01T00:00:00Z'));
+        expect(filter('deleted != null').compare).toBeNull();
+        expect(filter('score >= -1.5e3').compare).toBe(-1500);
+    });
+
+    it('reports error positions', () => {
+        expect(() => parseQuery('age >> 18')).toThrowError('Expected a value at position 5, found character \'>\'');
+        expect(() => parseQuery('age equals 18')).toThrowError('Unknown operator "equals" at position 4');
+        expect(() => parseQuery('(city == \'Amsterdam\'')).toThrowError('Unexpected end of query at position 20. Expected: \')\'');
+        expect(() => parseQuery('name == \'Ewout')).toThrowError('Unterminated string starting at position 8');
+        expect(() => parseQuery('age > 18 age < 65')).toThrowError(/"age" at position 9/);
+        expect(() => parseQuery('born < Date("yesterday")')).toThrowError('Invalid date at position 7');
+        expect(() => parseQuery('take 1.5')).toThrowError('Expected an integer for take at position 5');
+        expect(() => parseQuery('order name')).toThrowError('Expected \'by\' at position 6, found character \'n\'');
+    });
+});
@@ -0,0 +1,326 @@
+import type { QueryOperator } from './data-reference';
+import { queryOperators } from './query';
+
+export type QueryExpression =
+    { type: 'filter', key: string, op: QueryOperator, compare?: any, position: number }
+    | { type: 'and' | 'or', expressions: QueryExpression[], position: number }
+    | { type: 'not', expression: QueryExpression, position: number };
+
+export interface ParsedQuery {
+    filter?: QueryExpression;
+    order: Array<{ key: string, ascending: boolean }>;
+    skip?: number;
+    take?: number;
+}
+
+const isWordCharacter = (c: string) => typeof c === 'string' && ((c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || (c >= '0' && c <= '9') || c === '_' || c === '$');
+const isKeyCharacter = (c: string) => isWordCharacter(c) || ['/', '[', ']', '*'].includes(c);
+const symbolOperators = ['<=', '>=', '==', '!=', '<', '>'];
+const clauseKeywords = ['order', 'skip', 'take'];
+
+/**
+ * Parses a textual query, eg `"age >= 18 and (city == 'Amsterdam' or city like 'Rot*') order by name desc take 20"`
+ *
+ * - Conditions: `key operator value`, where operator is any `QueryOperator` (`exists` and `!exists` have no value)
+ * - Keys can contain slashes and brackets for nested properties (`address/city`, `items[0]`). Quote keys with other
+ * characters or keys named like a keyword: `"first name" == 'Ewout'`
+ * - Conditions can be combined with `and`, `or`, `not` and parentheses. `and` takes precedence over `or`
+ * - Values: strings (`'text'` or `"text"`), numbers (`42`, `-1.5`), bigints (`42n`), `true`, `false`, `null`,
+ * dates (`Date("2024-01-01")`), regular expressions (`/^ew/i`), arrays (`[1, 2]`), and objects (`{ lat: 52.37, long: 4.9, radius: 1000 }`)
+ * - Optional clauses at the end: `order by key [asc|desc], ...`, `skip n` and `take n`
+ *
+ * Keywords are case insensitive. Errors report the position of the offending character.
+ * @param definition query text
+ */
+export function parseQuery(definition: string): ParsedQuery {
+    if (typeof definition !== 'string') {
+        throw new TypeError('query must be a string');
+    }
+    let pos = 0;
+    function consumeSpaces() {
+        let c;
+        while (c = definition[pos], [' ','\r','\n','\t'].includes(c)) { pos++; }
+    }
+    function consumeCharacter(c: string) {
+        if (definition[pos] !== c) {
+            throw new Error(`Unexpected ${describe(pos)} at position ${pos}. Expected: '${c}'`);
+        }
+        pos++;
+    }
+    function describe(position: number) {
+        return position >= definition.length ? 'end of query' : `character '${definition[position]}'`;
+    }
+    function peekWord() {
+        let end = pos;
+        while (isWordCharacter(definition[end])) { end++; }
+        return definition.slice(pos, end).toLowerCase();
+    }
+    function isKeyword(word: string) {
+        // Keywords must be followed by a non-word character
+        return peekWord() === word;
+    }
+    function consumeKeyword(word: string) {
+        consumeSpaces();
+        if (!isKeyword(word)) {
+            throw new Error(`Expected '${word}' at position ${pos}, found ${describe(pos)}`);
+        }
+        pos += word.length;
+    }
+    function readString() {
+        const start = pos;
+        const quote = definition[pos];
+        consumeCharacter(quote);
+        let str = '', c: string;
+        while (c = definition[pos], c !== quote) {
+            if (typeof c === 'undefined') {
+                throw new Error(`Unterminated string starting at position ${start}`);
+            }
+            if (c === '\\') {
+                // Escaped character
+                pos++;
+                c = definition[pos];
+            }
+            str += c;
+            pos++;
+        }
+        consumeCharacter(quote);
+        return str;
+    }
+    function readKey() {
+        consumeSpaces();
+        if (['\'','"','`'].includes(definition[pos])) {
+            return readString();
+        }
+        let key = '';
+        while (isKeyCharacter(definition[pos])) {
+            key += definition[pos];
+            pos++;
+        }
+        if (key.length === 0) {
+            throw new Error(`Property name expected at position ${pos}, found ${describe(pos)}`);
+        }
+        return key;
+    }
+    function readNumber() {
+        const start = pos;
+        let nr = '', c: string;
+        if (definition[pos] === '-') {
+            nr += '-';
+            pos++;
+        }
+        while (c = definition[pos], c === '.' || (c >= '0' && c <= '9') || ((c === 'e' || c === 'E') && nr.length > 0) || ((c === '-' || c === '+') && /e$/i.test(nr))) {
+            nr += c;
+            pos++;
+        }
+        if (definition[pos] === 'n') {
+            // bigint, like in schema definitions
+            pos++;
+            if (!/^-?[0-9]+$/.test(nr)) {
+                throw new Error(`Invalid bigint at position ${start}`);
+            }
+            return BigInt(nr);
+        }
+        const value = Number(nr);
+        if (nr.length === 0 || nr === '-' || isNaN(value)) {
+            throw new Error(`Invalid number at position ${start}`);
+        }
+        return value;
+    }
+    function readRegExp() {
+        consumeCharacter('/');
+        const start = pos;
+        let pattern = '', flags = '', c: string;
+        while (c = definition[pos], c !== '/' || pattern.endsWith('\\')) {
+            if (typeof c === 'undefined') {
+                throw new Error(`Unterminated regular expression starting at position ${start - 1}`);
+            }
+            pattern += c;
+            pos++;
+        }
+        consumeCharacter('/');
+        while (c = definition[pos], ['g','i','m','s','u','y','d'].includes(c)) {
+            flags += c;
+            pos++;
+        }
+        return new RegExp(pattern, flags);
+    }
+    function readValue(): any {
+        consumeSpaces();
+        const start = pos;
+        const c = definition[pos];
+        if (['\'','"','`'].includes(c)) {
+            return readString();
+        }
+        if (c === '-' || (c >= '0' && c <= '9')) {
+            return readNumber();
+        }
+        if (c === '/') {
+            return readRegExp();
+        }
+        if (c === '[') {
+            consumeCharacter('[');
+            const values = [] as any[];
+            consumeSpaces();
+            while (definition[pos] !== ']') {
+                values.push(readValue());
+                consumeSpaces();
+                if (definition[pos] !== ']') {
+                    consumeCharacter(',');
+                }
+            }
+            consumeCharacter(']');
+            return values;
+        }
+        if (c === '{') {
+            consumeCharacter('{');
+            const obj = {} as Record<string, any>;
+            consumeSpaces();
+            while (definition[pos] !== '}') {
+                const key = readKey();
+                consumeSpaces();
+                consumeCharacter(':');
+                obj[key] = readValue();
+                consumeSpaces();
+                if (definition[pos] !== '}') {
+                    consumeCharacter(',');
+                    consumeSpaces();
+                }
+            }
+            consumeCharacter('}');
+            return obj;
+        }
+        const word = peekWord();
+        if (word === 'true' || word === 'false' || word === 'null') {
+            pos += word.length;
+            return word === 'null' ? null : word === 'true';
+        }
+        if (word === 'date') {
+            pos += word.length;
+            consumeSpaces();
+            consumeCharacter('(');
+            consumeSpaces();
+            const str = ['\'','"','`'].includes(definition[pos]) ? readString() : readNumber();
+            consumeSpaces();
+            consumeCharacter(')');
+            const date = new Date(str as string|number);
+            if (isNaN(date.getTime())) {
+                throw new Error(`Invalid date at position ${start}`);
+            }
+            return date;
+        }
+        throw new Error(`Expected a value at position ${pos}, found ${describe(pos)}`);
+    }
+    function readOperator(): QueryOperator {
+        consumeSpaces();
+        const start = pos;
+        const symbol = symbolOperators.find(op => definition.startsWith(op, pos));
+        if (symbol) {
+            pos += symbol.length;
+            return symbol as QueryOperator;
+        }
+        let op = '';
+        while (isWordCharacter(definition[pos]) || definition[pos] === '!' || definition[pos] === ':') {
+            op += definition[pos];
+            pos++;
+        }
+        op = op.toLowerCase();
+        if (!queryOperators.includes(op as QueryOperator)) {
+            throw new Error(op.length === 0
+                ? `Expected an operator at position ${start}, found ${describe(start)}`
+                : `Unknown operator "${op}" at position ${start}`);
+        }
+        return op as QueryOperator;
+    }
+    function readCondition(): QueryExpression {
+        consumeSpaces();
+        const position = pos;
+        const key = readKey();
+        const op = readOperator();
+        if (op === 'exists' || op === '!exists') {
+            return { type: 'filter', key, op, position };
+        }
+        const compare = readValue();
+        return { type: 'filter', key, op, compare, position };
+    }
+    function readUnary(): QueryExpression {
+        consumeSpaces();
+        const position = pos;
+        if (definition[pos] === '(') {
+            consumeCharacter('(');
+            const expression = readOr();
+            consumeSpaces();
+            consumeCharacter(')');
+            return expression;
+        }
+        if (isKeyword('not')) {
+            pos += 3;
+            return { type: 'not', expression: readUnary(), position };
+        }
+        return readCondition();
+    }
+    function readList(type: 'and' | 'or', readOperand: () => QueryExpression): QueryExpression {
+        consumeSpaces();
+        const position = pos;
+        const expressions = [readOperand()];
+        while (true) {
+            consumeSpaces();
+            if (!isKeyword(type)) { break; }
+            pos += type.length;
+            expressions.push(readOperand());
+        }
+        return expressions.length === 1 ? expressions[0] : { type, expressions, position };
+    }
+    function readAnd() {
+        return readList('and', readUnary);
+    }
+    function readOr(): QueryExpression {
+        return readList('or', readAnd);
+    }
+    function readInteger(keyword: string) {
+        consumeSpaces();
+        const start = pos;
+        const value = readNumber();
+        if (typeof value !== 'number' || !Number.isInteger(value) || (keyword === 'skip' && value < 0)) {
+            throw new Error(`Expected ${keyword === 'skip' ? 'a positive' : 'an'} integer for ${keyword} at position ${start}`);
+        }
+        return value;
+    }
+
+    const query: ParsedQuery = { order: [] };
+    consumeSpaces();
+    if (pos < definition.length && !clauseKeywords.includes(peekWord())) {
+        query.filter = readOr();
+    }
+    while (true) {
+        consumeSpaces();
+        if (pos >= definition.length) { break; }
+        const word = peekWord();
+        if (word === 'order') {
+            consumeKeyword('order');
+            consumeKeyword('by');
+            do {
+                if (definition[pos] === ',') { consumeCharacter(','); }
+                const key = readKey();
+                consumeSpaces();
+                let ascending = true;
+                if (isKeyword('asc') || isKeyword('desc')) {
+                    ascending = peekWord() === 'asc';
+                    pos += ascending ? 3 : 4;
+                    consumeSpaces();
+                }
+                query.order.push({ key, ascending });
+            } while (definition[pos] === ',');
+        }
+        else if (word === 'skip' || word === 'take') {
+            if (typeof query[word] === 'number') {
+                throw new Error(`Duplicate ${word} clause at position ${pos}`);
+            }
+            pos += word.length;
+            query[word] = readInteger(word);
+        }
+        else {
+            throw new Error(`Unexpected ${word ? `"${word}"` : describe(pos)} at position ${pos}. Expected 'and', 'or', 'order by', 'skip' or 'take'`);
+        }
+    }
+    return query;
+}
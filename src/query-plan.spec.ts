@@ -0,0 +1,62 @@
+import { IDataIndex } from './api';
+import { getQueryPlan } from './query-plan';
+
+describe('Query plan', () => {
+    const createIndex = (path: string, key: string, type = 'normal', includeKeys: string[] = []): IDataIndex => ({
+        path, key, type, includeKeys, caseSensitive: false, textLocale: 'en', indexMetadataKeys: [], fileName: `${path}-${key}.idx`, description: `${type} index on ${path}/${key}`,
+    });
+    const indexes = [
+        createIndex('users', 'age', 'normal', ['name']),
+        createIndex('users/*/posts', 'tags', 'array'),
+        createIndex('users/*/posts', 'text', 'fulltext'),
+        createIndex('products', 'price'),
+    ];
+
+    it('uses indexes for filters and sorting', () => {
+        const plan = getQueryPlan('users', {
+            filters: [{ key: 'age', op: '>=', compare: 18 }, { key: 'city', op: '==', compare: 'Amsterdam' }],
+            order: [{ key: 'name', ascending: true }],
+        }, indexes);
+        expect(plan.scan).toBeFalse();
+        expect(plan.filters.map(f => ({ key: f.key, index: f.index?.key, scan: f.scan }))).toEqual([
+            { key: 'age', index: 'age', scan: false },
+            { key: 'city', index: undefined, scan: true },
+        ]);
+        expect(plan.sort[0].index?.key).toBe('age'); // name is included in the age index
+        expect(plan.cost).toBe(0.3);
+        expect(plan.suggestions).toEqual([{ path: 'users', key: 'city', options: { type: 'normal' }, reason: 'prevents scanning for filter "city =="' }]);
+        expect(plan.errors).toEqual([]);
+
+        // Wildcard index paths apply to concrete and wildcard query paths
+        const posts = getQueryPlan('users/ewout/posts', { filters: [{ key: 'tags', op: 'contains', compare: 'js' }], order: [] }, indexes);
+        expect(posts.filters[0].index?.type).toBe('array');
+        expect(getQueryPlan('users/$uid/posts', { filters: [{ key: 'text', op: 'fulltext:contains', compare: 'cook*' }], order: [] }, indexes).errors).toEqual([]);
+    });
+
+    it('reports scans, errors and index suggestions', () => {
+        const plan = getQueryPlan('products', {
+            filters: [{ key: 'category', op: '==', compare: 'books' }, { key: 'tags', op: 'contains', compare: 'new' }, { key: 'meta', op: 'has', compare: 'isbn' }],
+            order: [{ key: 'title', ascending: true }, { key: 'price', ascending: false }],
+        }, indexes);
+        expect(plan.scan).toBeTrue();
+        expect(plan.cost).toBe(1.2);
+        expect(plan.sort.map(s => s.index?.key)).toEqual([undefined, 'price']);
+        expect(plan.suggestions.map(s => [s.key, s.options])).toEqual([
+            ['category', { type: 'normal', include: ['title'] }],
+            ['tags', { type: 'array' }],
+        ]);
+
+        const geo = getQueryPlan('shops', {
+            filters: [],
+            groups: [{ type: 'or', filters: [{ key: 'location', op: 'geo:nearby', compare: { lat: 52, long: 4, radius: 100 } }, { key: 'online', op: '==', compare: true }] }],
+            order: [],
+        }, indexes);
+        expect(geo.filters.map(f => f.grouped)).toEqual([true, true]);
+        expect(geo.errors).toEqual(['Filter "location geo:nearby" requires a geo index on "shops"']);
+        expect(geo.suggestions.map(s => [s.key, s.options.type])).toEqual([['location', 'geo']]);
+
+        const sorted = getQueryPlan('users', { filters: [], order: [{ key: 'email', ascending: true }, { key: 'name', ascending: true }] }, indexes);
+        expect(sorted.sort.map(s => s.index?.key)).toEqual([undefined, 'age']);
+        expect(sorted.suggestions.map(s => [s.key, s.options])).toEqual([['email', { type: 'normal' }]]);
+    });
+});
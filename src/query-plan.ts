@@ -0,0 +1,179 @@
+import type { IDataIndex, Query, QueryFilter, QueryFilterGroup } from './api';
+import { PathInfo } from './path-info';
+
+/**
+ * Index that can be created with `db.indexes.create(suggestion.path, suggestion.key, suggestion.options)`
+ */
+export interface QueryIndexSuggestion {
+    path: string;
+    key: string;
+    options: {
+        type?: 'normal' | 'array' | 'fulltext' | 'geo';
+        include?: string[];
+    };
+    /**
+     * Why the index is suggested
+     */
+    reason: string;
+}
+
+export interface QueryPlanFilter {
+    key: string | number;
+    op: string;
+    compare?: any;
+
+    /**
+     * Index that will be used to evaluate the filter
+     */
+    index?: IDataIndex;
+
+    /**
+     * Whether the filter is evaluated by scanning the collection (or the results of other filters)
+     */
+    scan: boolean;
+
+    /**
+     * Whether the operator can only be used with an index (fulltext and geo operators). Executing the query fails if
+     * `index` is not set
+     */
+    requiresIndex: boolean;
+
+    /**
+     * Whether the filter is part of an `or` or `not` group. Group filters are always evaluated by scanning the
+     * results of the other filters, or the collection
+     */
+    grouped: boolean;
+}
+
+export interface QueryPlanSort {
+    key: string;
+    ascending: boolean;
+
+    /**
+     * Index that contains the sort values, so they don't have to be loaded from the results
+     */
+    index?: IDataIndex;
+}
+
+export interface QueryPlan {
+    /**
+     * Path of the queried collection
+     */
+    path: string;
+    filters: QueryPlanFilter[];
+    sort: QueryPlanSort[];
+
+    /**
+     * Whether all children of the collection have to be loaded and checked, because no filter uses an index
+     */
+    scan: boolean;
+
+    /**
+     * Estimated cost of the query, relative to scanning the entire collection (1). Index lookups cost 0.1 each,
+     * checking the results of index lookups 0.2 per filter, and sorting 0.2 per sort key without index
+     */
+    cost: number;
+
+    /**
+     * Indexes to create to prevent scanning, ready to pass to `db.indexes.create`
+     */
+    suggestions: QueryIndexSuggestion[];
+
+    /**
+     * Problems that will prevent the query from being executed, eg a fulltext filter without fulltext index
+     */
+    errors: string[];
+}
+
+type IndexType = QueryIndexSuggestion['options']['type'];
+
+/**
+ * Gets the type of index that can evaluate a query operator, `null` if indexes can't be used
+ */
+function getIndexType(op: string): IndexType | null {
+    if (['contains', '!contains'].includes(op)) { return 'array'; }
+    if (['fulltext:contains', 'fulltext:!contains'].includes(op)) { return 'fulltext'; }
+    if (op === 'geo:nearby') { return 'geo'; }
+    if (['has', '!has'].includes(op)) { return null; }
+    return 'normal';
+}
+
+const isWildcardKey = (key: string|number) => typeof key === 'string' && (key === '*' || key[0] === '$');
+
+/**
+ * Checks if an index on a (wildcard) path can be used for a query on a (wildcard) path
+ */
+function isIndexOnPath(index: IDataIndex, path: string) {
+    const indexKeys = PathInfo.getPathKeys(index.path);
+    const pathKeys = PathInfo.getPathKeys(path);
+    return indexKeys.length === pathKeys.length && indexKeys.every((key, i) => isWildcardKey(key) ? true : !isWildcardKey(pathKeys[i]) && key === pathKeys[i]);
+}
+
+/**
+ * Gets the filters of filter groups
+ */
+const getGroupFilters = (groups: QueryFilterGroup[]): QueryFilter[] => groups.reduce((filters, group) => {
+    return filters.concat(...group.filters.map(f => 'filters' in f ? getGroupFilters([f]) : [f]));
+}, [] as QueryFilter[]);
+
+/**
+ * Determines how a query can be executed with given indexes, like the storage engine does: filters with a suitable index
+ * are evaluated with index lookups, all other filters are evaluated by checking the results of those lookups. If no filter
+ * can use an index, all children of the collection are checked
+ * @param path path of the queried collection
+ * @param query query to plan
+ * @param indexes available indexes
+ */
+export function getQueryPlan(path: string, query: Pick<Query, 'filters' | 'order'> & Partial<Pick<Query, 'groups'>>, indexes: IDataIndex[]): QueryPlan {
+    const available = indexes.filter(index => isIndexOnPath(index, path));
+    const findIndex = (key: string|number, op: string) => {
+        const type = getIndexType(op);
+        return type === null ? undefined : available.find(index => index.key === key && (index.type ?? 'normal') === type);
+    };
+
+    const filters: QueryPlanFilter[] = query.filters.map(f => {
+        const index = findIndex(f.key, f.op);
+        const requiresIndex = ['fulltext', 'geo'].includes(getIndexType(f.op));
+        return { key: f.key, op: f.op, compare: f.compare, index, scan: !index, requiresIndex, grouped: false };
+    });
+    getGroupFilters(query.groups ?? []).forEach(f => {
+        const requiresIndex = ['fulltext', 'geo'].includes(getIndexType(f.op));
+        filters.push({ key: f.key, op: f.op, compare: f.compare, index: requiresIndex ? findIndex(f.key, f.op) : undefined, scan: true, requiresIndex, grouped: true });
+    });
+    const indexed = filters.filter(f => f.index && !f.grouped);
+    const scan = indexed.length === 0;
+
+    // Sort values can be read from indexes that were used, or indexes on the sort key
+    const sort: QueryPlanSort[] = query.order.map(o => {
+        const hasSortKey = (index: IDataIndex) => index.key === o.key || index.includeKeys?.includes(o.key);
+        const index = indexed.map(f => f.index).find(hasSortKey)
+            ?? available.find(index => (index.type ?? 'normal') === 'normal' && hasSortKey(index));
+        return { key: o.key, ascending: o.ascending, index };
+    });
+
+    const errors = filters
+        .filter(f => f.requiresIndex && !f.index)
+        .map(f => `Filter "${f.key} ${f.op}" requires a ${getIndexType(f.op)} index on "${path}"`);
+
+    // Suggest indexes for filters that scan, include sort keys in them so they can be used for sorting too
+    const sortKeys = sort.filter(s => !s.index).map(s => s.key);
+    const suggestions = [] as QueryIndexSuggestion[];
+    const suggest = (key: string, type: IndexType, reason: string) => {
+        if (suggestions.some(s => s.key === key && s.options.type === type)) { return; }
+        const include = type === 'normal' ? sortKeys.filter(sortKey => sortKey !== key) : [];
+        suggestions.push({ path, key, options: { type, ...(include.length > 0 && { include }) }, reason });
+    };
+    filters.filter(f => !f.index && (!f.grouped || f.requiresIndex)).forEach(f => {
+        const type = getIndexType(f.op);
+        if (type === null) { return; }
+        suggest(f.key.toString(), type, f.requiresIndex ? `required for filter "${f.key} ${f.op}"` : `prevents scanning for filter "${f.key} ${f.op}"`);
+    });
+    if (filters.length === 0 && sortKeys.length > 0) {
+        suggest(sortKeys[0], 'normal', `prevents scanning to sort on "${sortKeys[0]}"`);
+    }
+
+    const unindexed = filters.length - indexed.length;
+    const sortCost = sort.filter(s => !s.index).length * 0.2;
+    const cost = Math.round((scan ? 1 + sortCost : indexed.length * 0.1 + unindexed * 0.2 + sortCost) * 100) / 100;
+    return { path, filters, sort, scan, cost, suggestions, errors };
+}
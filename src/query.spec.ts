@@ -0,0 +1,97 @@
+import { Query } from './api';
+
+describe('Query utilities', () => {
+    const user = {
+        name: 'Ewout',
+        age: 42,
+        born: new Date('1982-06-01T00:00:00Z'),
+        balance: BigInt('9007199254740993'),
+        tags: ['admin', 'dev'],
+        address: { city: 'Amsterdam', location: { lat: 52.3676, long: 4.9041 } },
+        bio: 'Loves writing databases and cooking',
+    };
+    const test = (key: string, op: string, compare?: any) => Query.matches(user, [{ key, op, compare }]);
+
+    it('comparison operators', () => {
+        expect(test('age', '==', 42)).toBeTrue();
+        expect(test('age', '!=', 42)).toBeFalse();
+        expect(test('age', '<', 43)).toBeTrue();
+        expect(test('age', '<=', 42)).toBeTrue();
+        expect(test('age', '>', 42)).toBeFalse();
+        expect(test('age', '>=', 42)).toBeTrue();
+        expect(test('address/city', '==', 'Amsterdam')).toBeTrue();
+
+        // Dates are compared by time
+        expect(test('born', '==', new Date('1982-06-01T00:00:00Z'))).toBeTrue();
+        expect(test('born', '<', new Date('2000-01-01'))).toBeTrue();
+        expect(test('born', 'in', [new Date('1970-01-01'), new Date('1982-06-01T00:00:00Z')])).toBeTrue();
+
+        // Bigints
+        expect(test('balance', '>', Number.MAX_SAFE_INTEGER)).toBeTrue();
+        expect(test('balance', '==', BigInt('9007199254740993'))).toBeTrue();
+        expect(test('balance', '>=', BigInt('9007199254740993'))).toBeTrue();
+        expect(test('age', '==', BigInt(42))).toBeTrue();
+    });
+
+    it('exists, in, between, like and matches', () => {
+        expect(test('name', 'exists')).toBeTrue();
+        expect(test('email', '!exists')).toBeTrue();
+        expect(test('email', '==', null)).toBeTrue();
+        expect(test('email', '!in', ['x'])).toBeFalse(); // non-existing properties don't match
+
+        expect(test('age', 'in', [1, 42])).toBeTrue();
+        expect(test('age', '!in', [1, 42])).toBeFalse();
+
+        expect(test('age', 'between', [40, 42])).toBeTrue();
+        expect(test('age', 'between', [50, 40])).toBeTrue();
+        expect(test('age', '!between', [43, 50])).toBeTrue();
+
+        expect(test('name', 'like', 'ew*')).toBeTrue();
+        expect(test('name', 'like', 'E?out')).toBeTrue();
+        expect(test('name', 'like', 'E?t')).toBeFalse();
+        expect(test('name', '!like', '*x*')).toBeTrue();
+        expect(test('name', 'like', 'Ew.ut')).toBeFalse(); // dots are no wildcards
+        expect(test('name', 'matches', /^ew/i)).toBeTrue();
+        expect(test('name', '!matches', /^ew/)).toBeTrue();
+    });
+
+    it('has, contains, fulltext and geo operators', () => {
+        expect(test('address', 'has', 'city')).toBeTrue();
+        expect(test('address', '!has', 'zip')).toBeTrue();
+        expect(test('tags', 'contains', 'admin')).toBeTrue();
+        expect(test('tags', 'contains', ['admin', 'dev'])).toBeTrue();
+        expect(test('tags', 'contains', ['admin', 'ops'])).toBeFalse();
+        expect(test('tags', '!contains', ['ops', 'qa'])).toBeTrue();
+        expect(test('bio', 'fulltext:contains', 'cook* DATABASES')).toBeTrue();
+        expect(test('bio', 'fulltext:!contains', 'gardening')).toBeTrue();
+        expect(test('address/location', 'geo:nearby', { lat: 52.37, long: 4.9, radius: 1000 })).toBeTrue();
+        expect(test('address/location', 'geo:nearby', { lat: 51.92, long: 4.48, radius: 1000 })).toBeFalse(); // Rotterdam
+        expect(() => test('name', 'unknown', 1)).toThrowError(/Unknown query operator/);
+    });
+
+    it('filter groups and queries', () => {
+        expect(Query.matches(user, [
+            { key: 'age', op: '>', compare: 40 },
+            { type: 'or', filters: [{ key: 'name', op: '==', compare: 'Pete' }, { key: 'tags', op: 'contains', compare: 'dev' }] },
+        ])).toBeTrue();
+        expect(Query.matches(user, {
+            filters: [],
+            groups: [{ type: 'not', filters: [{ key: 'age', op: '>', compare: 40 }, { key: 'name', op: '==', compare: 'Ewout' }] }],
+        })).toBeFalse();
+        expect(Query.matches('Ewout', [])).toBeFalse(); // only objects match
+        expect(Query.matches([user], [])).toBeFalse();
+    });
+
+    it('sortComparator', () => {
+        const values = [
+            { name: 'c', age: 30, born: new Date('2000-01-01') },
+            { name: 'a', age: 20, born: new Date('1990-01-01') },
+            { name: 'd' },
+            { name: 'b', age: 30, born: new Date('1980-01-01') },
+        ];
+        const names = (order: any[]) => values.slice().sort(Query.sortComparator(order)).map(v => v.name);
+        expect(names([{ key: 'age', ascending: true }])).toEqual(['d', 'a', 'c', 'b']); // null first, stable
+        expect(names([{ key: 'age', ascending: false }, { key: 'born', ascending: true }])).toEqual(['b', 'c', 'a', 'd']);
+        expect(names([{ key: 'born', ascending: false }])).toEqual(['c', 'a', 'b', 'd']);
+    });
+});
@@ -0,0 +1,193 @@
+import type { Query, QueryFilter, QueryFilterGroup, QueryOrder } from './api';
+import type { QueryOperator } from './data-reference';
+import { PathInfo } from './path-info';
+import { valuesAreEqual } from './utils';
+
+/**
+ * All supported query operators
+ */
+export const queryOperators: QueryOperator[] = [
+    '<', '<=', '==', '!=', '>', '>=', 'exists', '!exists', 'between', '!between', 'like', '!like', 'matches', '!matches',
+    'in', '!in', 'has', '!has', 'contains', '!contains', 'fulltext:contains', 'fulltext:!contains', 'geo:nearby',
+];
+
+const isObject = (value: any) => value !== null && typeof value === 'object'
+    && !(value instanceof Date) && !(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value);
+
+/**
+ * Gets the value of a property (or nested property) of a node's value, `null` if it does not exist
+ */
+function getPropertyValue(value: any, key: string|number) {
+    const keys = typeof key === 'number' ? [key] : PathInfo.getPathKeys(key);
+    return keys.reduce((val, key) => isObject(val) ? val[key] ?? null : null, value);
+}
+
+/**
+ * Normalizes a value for comparison: dates are compared by time
+ */
+const normalize = (value: any) => value instanceof Date ? value.getTime() : value;
+
+/**
+ * Checks if 2 normalized values are equal. Numbers and bigints with the same value are considered equal
+ */
+const isEqual = (left: any, right: any) => typeof left === 'bigint' || typeof right === 'bigint'
+    ? (typeof left === 'number' || typeof left === 'bigint') && (typeof right === 'number' || typeof right === 'bigint') && left == right
+    : left === right;
+
+/**
+ * Gets a case insensitive regular expression for a `like` pattern, which can contain `*` and `?` wildcards
+ */
+const getLikePattern = (pattern: string) => new RegExp(
+    '^' + pattern.replace(/[-[\]{}()+.,\\^$|#\s]/g, '\\$&').replace(/\?/g, '.').replace(/\*/g, '.*?') + '$',
+    'i',
+);
+
+/**
+ * Tests an existing value against a query operator, like the storage engine does
+ * @param val value of the filtered property, must not be `null`
+ * @param op query operator
+ * @param compare value to compare with
+ */
+export function testValue(val: any, op: string, compare: any): boolean {
+    const value = normalize(val);
+    const other = compare instanceof Array ? compare.map(normalize) : normalize(compare);
+    switch (op) {
+        case '<': return value < other;
+        case '<=': return value <= other || isEqual(value, other);
+        case '==': return isEqual(value, other);
+        case '!=': return !isEqual(value, other);
+        case '>': return value > other;
+        case '>=': return value >= other || isEqual(value, other);
+        case 'in': return (other as any[]).some(item => isEqual(value, item));
+        case '!in': return !(other as any[]).some(item => isEqual(value, item));
+        case 'like':
+        case '!like': {
+            const isMatch = getLikePattern(String(compare)).test(val.toString());
+            return op === 'like' ? isMatch : !isMatch;
+        }
+        case 'matches': return (compare as RegExp).test(val.toString());
+        case '!matches': return !(compare as RegExp).test(val.toString());
+        case 'between':
+        case '!between': {
+            // Bounds can be given in any order
+            const [bottom, top] = other[0] > other[1] ? [other[1], other[0]] : other;
+            const isBetween = (value > bottom || isEqual(value, bottom)) && (value < top || isEqual(value, top));
+            return op === 'between' ? isBetween : !isBetween;
+        }
+        case 'has':
+        case '!has': {
+            const has = isObject(val) && compare in val && val[compare] !== null;
+            return op === 'has' ? has : !has;
+        }
+        case 'contains':
+        case '!contains': {
+            if (!(val instanceof Array)) { return op === '!contains'; }
+            const includes = (item: any) => val.some(v => valuesAreEqual(v, item));
+            return op === 'contains'
+                ? compare instanceof Array ? compare.every(includes) : includes(compare)
+                : compare instanceof Array ? !compare.some(includes) : !includes(compare);
+        }
+        case 'fulltext:contains':
+        case 'fulltext:!contains': {
+            // Storage engines use a fulltext index for this, this matches words (with wildcards) case insensitively
+            const getWords = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}*?]+/u).filter(word => word.length > 0);
+            const words = typeof val === 'string' ? getWords(val) : [];
+            const isMatch = getWords(String(compare)).every(search => {
+                const pattern = new RegExp('^' + search.replace(/\?/g, '.').replace(/\*/g, '.*?') + '$');
+                return words.some(word => pattern.test(word));
+            });
+            return op === 'fulltext:contains' ? isMatch : !isMatch;
+        }
+        case 'geo:nearby': {
+            if (!isObject(val) || typeof val.lat !== 'number' || typeof val.long !== 'number') { return false; }
+            // Haversine formula, radius is in meters
+            const rad = (deg: number) => deg * Math.PI / 180;
+            const dLat = rad(compare.lat - val.lat), dLong = rad(compare.long - val.long);
+            const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(val.lat)) * Math.cos(rad(compare.lat)) * Math.sin(dLong / 2) ** 2;
+            const distance = 6371e3 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+            return distance <= compare.radius;
+        }
+        default:
+            throw new Error(`Unknown query operator "${op}"`);
+    }
+}
+
+/**
+ * Checks if a node's value matches a single filter
+ */
+function matchesFilter(value: any, f: QueryFilter) {
+    const val = getPropertyValue(value, f.key);
+    const exists = val !== null;
+    if (f.op === '!exists' || (f.op === '==' && (f.compare === null || typeof f.compare === 'undefined'))) {
+        return !exists;
+    }
+    if (f.op === 'exists' || (f.op === '!=' && (f.compare === null || typeof f.compare === 'undefined'))) {
+        return exists;
+    }
+    if ((f.op === 'contains' || f.op === '!contains') && f.compare instanceof Array && f.compare.length === 0) {
+        return true;
+    }
+    if (!exists) {
+        // Properties that don't exist don't match any other operator, not even negating ones
+        return false;
+    }
+    return testValue(val, f.op, f.compare);
+}
+
+/**
+ * Checks if a node's value matches a (nested) filter group
+ */
+function matchesFilterGroup(value: any, group: QueryFilterGroup): boolean {
+    const matches = (f: QueryFilter | QueryFilterGroup) => 'filters' in f ? matchesFilterGroup(value, f) : matchesFilter(value, f);
+    switch (group.type) {
+        case 'and': return group.filters.every(matches);
+        case 'or': return group.filters.some(matches);
+        case 'not': return !group.filters.every(matches);
+        default: throw new Error(`Unknown filter group type "${group.type}"`);
+    }
+}
+
+/**
+ * Checks if a node's value matches query filters, like the storage engine does
+ * @param value value of the node
+ * @param filters filters (and filter groups) that all must match, or a query
+ */
+export function matches(value: any, filters: Array<QueryFilter | QueryFilterGroup> | Pick<Query, 'filters' | 'groups'>): boolean {
+    if (!isObject(value) || value instanceof Array) {
+        return false; // Only object nodes can match
+    }
+    const group: QueryFilterGroup = filters instanceof Array
+        ? { type: 'and', filters }
+        : { type: 'and', filters: [...filters.filters, ...(filters.groups ?? [])] };
+    return matchesFilterGroup(value, group);
+}
+
+/**
+ * Compares the values of a sort key like the storage engine does: `null` (non-existing) values sort first, dates by time
+ * @returns a negative number if `left` sorts first, a positive number if `right` sorts first, `0` if they are equal
+ */
+export function compareSortValues(left: any, right: any, ascending = true): number {
+    if (left === null || typeof left === 'undefined') { return right === null || typeof right === 'undefined' ? 0 : ascending ? -1 : 1; }
+    if (right === null || typeof right === 'undefined') { return ascending ? 1 : -1; }
+    left = normalize(left);
+    right = normalize(right);
+    if (isEqual(left, right)) { return 0; }
+    if (left < right) { return ascending ? -1 : 1; }
+    return ascending ? 1 : -1;
+}
+
+/**
+ * Gets a function that compares node values by the sort keys of a query, to be used with `Array.sort`.
+ * Note that storage engines sort nodes with the same values by their path
+ * @param order sort order of a query
+ */
+export function sortComparator(order: QueryOrder[]): (a: any, b: any) => number {
+    const sortKeys = order.map(o => ({ key: o.key, ascending: o.ascending !== false }));
+    return (a: any, b: any) => {
+        for (const o of sortKeys) {
+            const result = compareSortValues(getPropertyValue(a, o.key), getPropertyValue(b, o.key), o.ascending);
+            if (result !== 0) { return result; }
+        }
+        return 0;
+    };
+}
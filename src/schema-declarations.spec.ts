@@ -0,0 +1,100 @@
+import * as ts from 'typescript';
+import { SchemaDefinition } from './schema';
+import { generateSchemaDeclarations } from './schema-declarations';
+
+/**
+ * Type checks generated declarations together with test code, returns the error messages
+ */
+function typeCheck(declarations: string, code: string) {
+    const files: Record<string, string> = { '/db-schema.d.ts': declarations, '/test.ts': code };
+    const options: ts.CompilerOptions = { strict: true, noEmit: true, target: ts.ScriptTarget.ES2020, lib: ['lib.es2020.d.ts'] };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, languageVersion) => fileName in files
+        ? ts.createSourceFile(fileName, files[fileName], languageVersion)
+        : getSourceFile(fileName, languageVersion);
+    host.fileExists = fileName => fileName in files || ts.sys.fileExists(fileName);
+    host.readFile = fileName => files[fileName] ?? ts.sys.readFile(fileName);
+    const program = ts.createProgram(['/test.ts'], options, host);
+    return ts.getPreEmitDiagnostics(program).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('schema declarations', () => {
+    const schemas = [
+        { path: 'users/$uid', text: '{name:string,age?:number(0..150),role:\'admin\'|\'user\',born:Date,tags?:string[],address?:{city:string,zip_code:string}}' },
+        { path: 'users/$uid/posts/*', text: '{title:string,published:boolean}' },
+        { path: 'app-settings', text: '{theme:string,*:number}' },
+    ];
+
+    it('generates nested types and a path map', () => {
+        const declarations = generateSchemaDeclarations(schemas);
+        expect(declarations).toContain([
+            'export type DatabaseSchema = {',
+            '    users?: Record<string, {',
+            '        name: string;',
+            '        age?: number;',
+            '        role: \'admin\' | \'user\';',
+            '        born: Date;',
+            '        tags?: Array<string>;',
+            '        address?: {',
+            '            city: string;',
+            '            zip_code: string;',
+            '        };',
+            '    } & {',
+            '        posts?: Record<string, {',
+            '            title: string;',
+            '            published: boolean;',
+            '        }>;',
+            '    }>;',
+        ].join('\n'));
+        expect(declarations).toContain('    \'app-settings\'?: {\n        theme: string;\n        [key: string]: number | string;\n    };');
+        expect(declarations).toContain('export interface DatabasePaths {\n    \'app-settings\': {');
+        expect(declarations).toContain('\n    \'users/$uid/posts/*\': {\n        title: string;\n        published: boolean;\n    };\n}');
+    });
+
+    it('compiles and resolves path types', () => {
+        const declarations = generateSchemaDeclarations(schemas);
+        const valid = [
+            'import type { DatabasePaths, DatabaseSchema, PathValue } from \'./db-schema\';',
+            'const user: PathValue<\'users/ewout\'> = { name: \'Ewout\', role: \'admin\', born: new Date() };',
+            'const city: PathValue<\'users/ewout/address/city\'> = \'Amsterdam\';',
+            'const post: PathValue<\'users/ewout/posts/post1\'> = { title: \'Hello\', published: true };',
+            'const title: PathValue<\'users/ewout/posts/post1/title\'> = \'Hello\';',
+            'const tag: PathValue<\'users/ewout/tags/0\'> = \'tag\';',
+            'const volume: PathValue<\'app-settings/volume\'> = 10;',
+            'const mapped: DatabasePaths[\'users/$uid/posts/*\'] = post;',
+            'const root: DatabaseSchema = { users: { ewout: user }, \'app-settings\': { theme: \'dark\', volume } };',
+            'export { city, title, tag, mapped, root };',
+        ].join('\n');
+        expect(typeCheck(declarations, valid)).toEqual([]);
+
+        const invalid = [
+            'import type { PathValue } from \'./db-schema\';',
+            'const user: PathValue<\'users/ewout\'> = { name: \'Ewout\', role: \'guest\', born: new Date() };',
+            'const title: PathValue<\'users/ewout/posts/post1/title\'> = 5;',
+            'export { user, title };',
+        ].join('\n');
+        expect(typeCheck(declarations, invalid).length).toBe(2);
+    });
+
+    it('rejects duplicate schema paths', () => {
+        expect(() => generateSchemaDeclarations([{ path: 'users/$uid', text: 'string' }, { path: 'users/*', text: 'number' }])).toThrowError('Multiple schemas are defined for path "users/*"');
+    });
+    it('exports named types', () => {
+        SchemaDefinition.defineType('TreeOwner', '{ name: string }');
+        SchemaDefinition.defineType('TreeItem', '{ name: string, children?: TreeItem[], owner?: TreeOwner }');
+        const declarations = generateSchemaDeclarations([{ path: 'trees/$id', text: 'TreeItem' }]);
+        expect(declarations).toContain('export type TreeItem = {\n    name: string;\n    children?: Array<TreeItem>;\n    owner?: TreeOwner;\n};');
+        expect(declarations).toContain('export type TreeOwner = {\n    name: string;\n};');
+        expect(declarations).toContain('export type DatabaseSchema = {\n    trees?: Record<string, TreeItem>;\n};');
+
+        const code = [
+            'import type { PathValue } from \'./db-schema\';',
+            'const tree: PathValue<\'trees/t1\'> = { name: \'root\', children: [{ name: \'leaf\', owner: { name: \'Ewout\' } }] };',
+            'const name: PathValue<\'trees/t1/children/0/owner/name\'> = \'Ewout\';',
+            'export { tree, name };',
+        ].join('\n');
+        expect(typeCheck(declarations, code)).toEqual([]);
+        SchemaDefinition.undefineType('TreeItem', 'TreeOwner');
+    });
+});
@@ -0,0 +1,161 @@
+import type { IAceBaseSchemaInfo } from './api';
+import { PathInfo } from './path-info';
+import { getNamedType, IType, SchemaDefinition } from './schema';
+
+interface SchemaNode {
+    /** parsed schema of the node, if a schema was defined for its path */
+    type?: IType;
+    /** named child nodes that have schemas on or below their paths */
+    children: Map<string, SchemaNode>;
+    /** wildcard child node, if wildcard paths have schemas (`*` and `$var` are merged) */
+    wildcard?: SchemaNode;
+}
+
+const isWildcardKey = (key: string|number) => typeof key === 'string' && (key === '*' || key[0] === '$');
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+
+const propertyName = (name: string) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+
+/**
+ * Gets the TypeScript type of a parsed schema type, named types are added to `aliases`
+ */
+function getTypeScript(type: IType, indent: string, aliases: Set<string>): string {
+    if (type.alias) {
+        aliases.add(type.alias);
+        return type.alias;
+    }
+    if (type.typeOf === 'any') { return 'any'; }
+    if ('value' in type) {
+        if (type.value === null) { return 'null'; }
+        if (typeof type.value === 'string') { return quote(type.value); }
+        if (typeof type.value === 'bigint') { return `${type.value}n`; }
+        return `${type.value}`;
+    }
+    if (type.instanceOf === Array) {
+        const types = type.genericTypes?.map(t => getTypeScript(t, indent, aliases)) ?? ['any'];
+        return `Array<${types.join(' | ')}>`;
+    }
+    if (type.instanceOf === Date) { return 'Date'; }
+    if (type.instanceOf === ArrayBuffer) { return 'ArrayBuffer'; }
+    if (type.instanceOf === Object && !type.children) { return 'Record<string, any>'; }
+    if (type.children) {
+        const named = type.children.filter(prop => !prop.wildcard).map(prop => ({
+            name: prop.name, optional: prop.optional, type: prop.types.map(t => getTypeScript(t, `${indent}    `, aliases)).join(' | '),
+        }));
+        const wildcards = type.children.filter(prop => prop.wildcard).map(prop => prop.types.map(t => getTypeScript(t, `${indent}    `, aliases)).join(' | '));
+        return getObjectTypeScript(named, wildcards, indent);
+    }
+    return type.typeOf; // string (also for regular expressions and formats), number, boolean, bigint, undefined
+}
+
+/**
+ * Gets the TypeScript type of an object with named and wildcard properties. Named properties must be assignable to the
+ * index signature, so their types are included in it
+ */
+function getObjectTypeScript(named: Array<{ name: string, optional: boolean, type: string }>, wildcards: string[], indent: string) {
+    const lines = named.map(prop => `${indent}    ${propertyName(prop.name)}${prop.optional ? '?' : ''}: ${prop.type};`);
+    if (wildcards.length > 0) {
+        const types = wildcards.concat(named.map(prop => prop.optional ? `${prop.type} | undefined` : prop.type));
+        lines.push(`${indent}    [key: string]: ${types.filter((t, i) => types.indexOf(t) === i).join(' | ')};`);
+    }
+    return lines.length === 0 ? '{}' : `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Gets the TypeScript type of a node in the schema tree: its own schema, combined with the collections of its child nodes
+ */
+function getNodeTypeScript(node: SchemaNode, indent: string, aliases: Set<string>): string {
+    const types = [] as string[];
+    if (node.type) {
+        types.push(getTypeScript(node.type, indent, aliases));
+    }
+    if (node.children.size > 0 || node.wildcard) {
+        // Child nodes are optional, they exist if data was stored in them
+        const named = [...node.children.entries()].map(([name, child]) => ({ name, optional: true, type: getNodeTypeScript(child, `${indent}    `, aliases) }));
+        if (named.length === 0) {
+            types.push(`Record<string, ${getNodeTypeScript(node.wildcard, indent, aliases)}>`);
+        }
+        else {
+            const wildcards = node.wildcard ? [getNodeTypeScript(node.wildcard, `${indent}    `, aliases)] : [];
+            types.push(getObjectTypeScript(named, wildcards, indent));
+        }
+    }
+    return types.length === 0 ? 'any' : types.join(' & ');
+}
+
+/**
+ * Generates a TypeScript declaration (.d.ts) module for the stored schemas, so the types used with `db.ref<T>()` don't
+ * have to be written by hand. The module exports:
+ * - `DatabaseSchema`: the type of the root node. Wildcard paths (eg `users/$uid/posts/*`) become nested `Record` types
+ * - `DatabasePaths`: a map of all schema paths to the type of their values
+ * - `PathValue<P>`: the type of the value at a (non-wildcard) path, eg `PathValue<'users/ewout/posts/post1'>`
+ *
+ * Named types used by the schemas (see `SchemaDefinition.defineType`) are exported too, they must be defined before generating.
+ *
+ * Because only the schema texts are used, the schemas can be read from a JSON dump of `db.schema.all()`. Eg in Node:
+ * ```js
+ * const schemas = JSON.parse(fs.readFileSync('schemas.json', 'utf8'));
+ * fs.writeFileSync('db-schema.d.ts', generateSchemaDeclarations(schemas));
+ * ```
+ * `PathValue` can be used in an overload of `db.ref`, eg with module augmentation:
+ * ```ts
+ * import type { PathValue } from './db-schema';
+ * declare module 'acebase' {
+ *     interface AceBase { ref<P extends string>(path: P): DataReference<PathValue<P>>; }
+ * }
+ * ```
+ * @param schemas stored schemas, as returned by `db.schema.all()`
+ * @returns the TypeScript source of the declaration module
+ */
+export function generateSchemaDeclarations(schemas: Array<Pick<IAceBaseSchemaInfo, 'path' | 'text'>>) {
+    const root: SchemaNode = { children: new Map() };
+    const paths = schemas.map(schema => {
+        const keys = PathInfo.getPathKeys(schema.path);
+        const node = keys.reduce<SchemaNode>((node, key) => {
+            if (isWildcardKey(key)) {
+                return node.wildcard ?? (node.wildcard = { children: new Map() });
+            }
+            const name = key.toString();
+            if (!node.children.has(name)) {
+                node.children.set(name, { children: new Map() });
+            }
+            return node.children.get(name);
+        }, root);
+        if (node.type) {
+            throw new Error(`Multiple schemas are defined for path "${schema.path}"`);
+        }
+        node.type = new SchemaDefinition(schema.text).type;
+        return { path: schema.path, node };
+    });
+
+    const aliases = new Set<string>();
+    const rootType = getNodeTypeScript(root, '', aliases);
+    const pathMap = paths
+        .sort((a, b) => a.path < b.path ? -1 : 1)
+        .map(({ path, node }) => `    ${quote(path)}: ${getNodeTypeScript(node, '    ', aliases)};`);
+    const namedTypes = [] as string[];
+    for (const name of aliases) { // also iterates names added while converting
+        namedTypes.push(`export type ${name} = ${getTypeScript(getNamedType(name), '', aliases)};`, '');
+    }
+    return [
+        '// Generated from AceBase schema definitions',
+        '',
+        ...namedTypes,
+        `export type DatabaseSchema = ${rootType};`,
+        '',
+        '/** Types of the values stored at schema paths */',
+        `export interface DatabasePaths {${pathMap.length > 0 ? `\n${pathMap.join('\n')}\n` : ''}}`,
+        '',
+        'type PathKeys<P extends string> = P extends \'\' ? [] : P extends `${infer K}/${infer Rest}` ? [K, ...PathKeys<Rest>] : [P];',
+        'type ValueAt<T, K extends string[]> = K extends [infer F extends string, ...infer R extends string[]]',
+        '    ? T extends Array<infer V> ? ValueAt<V, R>',
+        '        : T extends Record<string, any> ? F extends keyof T ? ValueAt<NonNullable<T[F]>, R> : string extends keyof T ? ValueAt<NonNullable<T[string]>, R> : any',
+        '        : any',
+        '    : T;',
+        '',
+        '/** Type of the value stored at a path, eg `PathValue<\'users/ewout\'>` */',
+        'export type PathValue<P extends string> = ValueAt<DatabaseSchema, PathKeys<P>>;',
+        '',
+    ].join('\n');
+}
@@ -185,6 +185,12 @@ describe('schema', () => {
         // Test invalid float value:
         result = staticValuesSchema.check('static', { float: 897.452 }, false);
         expect(result.ok).toBeFalse();
+
+        // Test bigint values:
+        const bigintSchema = new SchemaDefinition('{ big?: 5n }');
+        expect(bigintSchema.check('static', { big: BigInt(5) }, false)).toEqual({ ok: true });
+        expect(bigintSchema.check('static', { big: BigInt(6) }, false).ok).toBeFalse();
+        expect(bigintSchema.check('static', { big: 5 }, false).ok).toBeFalse();
     });
 
     it('with warnOnly enabled', async () => {
@@ -423,4 +429,268 @@ describe('schema', () => {
         expect(result.ok).toBeFalse();
     });
 
+    it('can be converted to and from JSON Schema', async () => {
+        const schema = new SchemaDefinition('{ name: string, age?: number, born: Date, avatar?: Binary, balance: bigint, role: "admin"|"user", active: true, email: /^[a-z.]+@[a-z.]+$/i, tags: string[], contacts?: { $id: { name: string, phone?: string|null } }, meta: Object, extra: any }');
+        const json = schema.toJSONSchema();
+        expect(json).toEqual({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+                born: { type: 'string', format: 'date-time' },
+                avatar: { type: 'string', contentEncoding: 'base64' },
+                balance: { type: 'integer', format: 'bigint' },
+                role: { anyOf: [{ const: 'admin' }, { const: 'user' }] },
+                active: { const: true },
+                email: { type: 'string', pattern: '^[a-z.]+@[a-z.]+$', 'x-regexFlags': 'i' },
+                tags: { type: 'array', items: { type: 'string' } },
+                contacts: {
+                    type: 'object',
+                    properties: {},
+                    additionalProperties: {
+                        type: 'object',
+                        properties: { name: { type: 'string' }, phone: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+                        required: ['name'],
+                        additionalProperties: false,
+                    },
+                },
+                meta: { type: 'object' },
+                extra: {},
+            },
+            required: ['name', 'born', 'balance', 'role', 'active', 'email', 'tags', 'meta', 'extra'],
+            additionalProperties: false,
+        });
+
+        // Round trip
+        const converted = SchemaDefinition.fromJSONSchema(json);
+        const value = { name: 'Ewout', born: new Date(), balance: BigInt(5), role: 'admin', active: true, email: 'Me@Example.com', tags: ['a'], contacts: { c1: { name: 'Anne' } }, meta: { any: 1 }, extra: 5 };
+        expect(schema.check('user', value, false)).toEqual(ok);
+        expect(converted.check('user', value, false)).toEqual(ok);
+        expect(converted.check('user', { ...value, role: 'guest' }, false).ok).toBeFalse();
+        expect(converted.check('user', { ...value, other: 1 }, false).ok).toBeFalse();
+        expect(converted.toJSONSchema()).toEqual(json);
+
+        expect(() => new SchemaDefinition('{ big: 5n }').toJSONSchema()).toThrowError(/bigint value/);
+    });
+
+    it('can be created from JSON Schema', async () => {
+        const schema = SchemaDefinition.fromJSONSchema({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            $defs: { address: { type: 'object', properties: { city: { type: 'string' }, zip: { type: 'string', pattern: '^[0-9]{4}/[A-Z]{2}$' } }, required: ['city'] } },
+            type: 'object',
+            properties: {
+                id: { type: 'integer' },
+                status: { enum: ['open', 'closed', null] },
+                address: { $ref: '#/$defs/address' },
+                scores: { type: 'array', items: { type: ['number', 'string'] } },
+                birthday: { type: 'string', format: 'date' },
+            },
+            required: ['id'],
+        });
+        expect(schema.text).toBe('{id:number,status?:\'open\'|\'closed\'|null,address?:{city:string,zip?:/^[0-9]{4}\\/[A-Z]{2}$/,*:any},scores?:Array<number|string>,birthday?:string(iso-date),*:any}');
+        expect(schema.check('item', { id: 1, status: 'open', address: { city: 'Amsterdam', zip: '1234/AB', extra: true }, scores: [1, 'A'], birthday: '1982-06-01', other: 'allowed' }, false)).toEqual(ok);
+        expect(schema.check('item', { id: 1, address: { city: 'Amsterdam', zip: '1234 AB' } }, false).ok).toBeFalse();
+        expect(schema.check('item', { status: 'open' }, false).ok).toBeFalse();
+
+        expect(() => SchemaDefinition.fromJSONSchema({ allOf: [{ type: 'string' }] })).toThrowError(/"allOf" cannot be converted/);
+        expect(() => SchemaDefinition.fromJSONSchema({ $defs: { node: { type: 'object', properties: { next: { $ref: '#/$defs/node' } } } }, $ref: '#/$defs/node' })).toThrowError(/Recursive/);
+        expect(() => SchemaDefinition.fromJSONSchema({ type: 'object', properties: { 'first-name': { type: 'string' } } })).toThrowError(/property name "first-name"/);
+
+        // Unions can't be converted at the root
+        expect(() => SchemaDefinition.fromJSONSchema({ enum: ['open', 'closed'] })).toThrowError(/unions .* cannot be converted at the root/);
+        expect(() => SchemaDefinition.fromJSONSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] })).toThrowError(/unions .* cannot be converted at the root/);
+        expect(() => SchemaDefinition.fromJSONSchema({ type: ['object', 'null'] })).toThrowError(/unions .* cannot be converted at the root/);
+        expect(() => SchemaDefinition.fromJSONSchema({ $defs: { status: { oneOf: [{ const: 'a' }, { const: 'b' }] } }, $ref: '#/$defs/status' })).toThrowError(/unions/);
+        expect(SchemaDefinition.fromJSONSchema({ enum: ['open'] }).text).toBe('\'open\'');
+
+        // Objects without properties
+        const empty = SchemaDefinition.fromJSONSchema({ type: 'object', properties: {}, additionalProperties: false });
+        expect(empty.text).toBe('{}');
+        expect(empty.check('empty', {}, false)).toEqual(ok);
+        expect(empty.check('empty', { name: 'Ewout' }, false).ok).toBeFalse();
+        expect(empty.toJSONSchema()).toEqual({ $schema: 'https://json-schema.org/draft/2020-12/schema', type: 'object', properties: {}, additionalProperties: false });
+    });
+
+    it('cannot have unions or other input after the root type', async () => {
+        const strict = { warnOnly: false, strict: true };
+        expect(() => new SchemaDefinition('string | number', strict)).toThrowError('Unions are not supported at the root of a type definition (position 7), only for properties and Array values');
+        expect(() => new SchemaDefinition('{ name: string } extra', strict)).toThrowError('Unexpected character \'e\' at position 17, expected the end of the type definition');
+
+        // Definitions stored by earlier versions, which ignored the rest of the definition, still load with a warning
+        const warnings = [] as string[];
+        const lenient = new SchemaDefinition('string | number', { warnOnly: false, warnCallback: message => warnings.push(message) });
+        expect(warnings).toEqual(['Unions are not supported at the root of a type definition (position 7), only for properties and Array values. Ignoring "| number" in type definition "string | number"']);
+        expect(lenient.check('value', 'text', false)).toEqual(ok);
+        expect(lenient.check('value', 1, false).ok).toBeFalse();
+
+        expect(() => SchemaDefinition.defineType('Status', '"open"|"closed"')).toThrowError(/Unions are not supported/);
+        expect(new SchemaDefinition(' { name: string|number } ').text).toBe(' { name: string|number } ');
+        expect(new SchemaDefinition('{ }').check('empty', {}, false)).toEqual(ok);
+    });
+    it('value constraints', async () => {
+        const schema = new SchemaDefinition({
+            name: 'string(1..50)',
+            'age?': 'number(0..150)',
+            'temperature?': 'number(-50.5..60)',
+            'balance?': 'bigint(0..)',
+            'email?': 'string(email, ..100)',
+            'id?': 'string(uuid)',
+            'birthday?': 'string(iso-date)',
+            'tags?': 'Array<string(1..20)>(..3)',
+            'scores?': 'number(0..10)[](1..)',
+            'code?': '/^[A-Z]+$/(2..4)',
+        });
+        expect(schema.text).toBe('{name:string(1..50),age?:number(0..150),temperature?:number(-50.5..60),balance?:bigint(0..),email?:string(email, ..100),id?:string(uuid),birthday?:string(iso-date),tags?:Array<string(1..20)>(..3),scores?:number(0..10)[](1..),code?:/^[A-Z]+$/(2..4)}');
+        expect(schema.type.children[0].types[0].range).toEqual({ min: 1, max: 50 });
+        expect(schema.type.children[4].types[0]).toEqual({ typeOf: 'string', format: 'email', range: { max: 100 } });
+
+        const valid = {
+            name: 'Ewout', age: 42, temperature: -12, balance: BigInt(10), email: 'me@example.com', id: '0a1b2c3d-4e5f-6789-abcd-ef0123456789',
+            birthday: '1982-06-01', tags: ['a', 'b'], scores: [0, 10], code: 'AB',
+        };
+        expect(schema.check('user', valid, false)).toEqual(ok);
+        const check = (value: any) => schema.check('user', { ...valid, ...value }, false).reason;
+        expect(check({ name: '' })).toBe('path "user/name" must have a length in range 1..50');
+        expect(check({ age: 151 })).toBe('path "user/age" must be in range 0..150');
+        expect(check({ temperature: -51 })).toBe('path "user/temperature" must be in range -50.5..60');
+        expect(check({ balance: BigInt(-1) })).toBe('path "user/balance" must be in range 0..');
+        expect(check({ email: 'me@example' })).toBe('path "user/email" must be a valid email');
+        expect(check({ email: `${'x'.repeat(100)}@example.com` })).toBe('path "user/email" must have a length in range ..100');
+        expect(check({ id: 'not-a-uuid' })).toBe('path "user/id" must be a valid uuid');
+        expect(check({ birthday: '1982-02-30' })).toBe('path "user/birthday" must be a valid iso-date');
+        expect(check({ tags: ['a', 'b', 'c', 'd'] })).toBe('path "user/tags" must have a length in range ..3');
+        expect(check({ tags: ['a', ''] })).toBe('every array value of path "user/tags" must match one of the specified types');
+        expect(check({ scores: [] })).toBe('path "user/scores" must have a length in range 1..');
+        expect(check({ code: 'ABCDE' })).toBe('path "user/code" must have a length in range 2..4');
+
+        // Child checks
+        expect(schema.check('user', 200, true, ['age']).reason).toBe('path "user/age" must be in range 0..150');
+
+        expect(() => new SchemaDefinition('number(email)')).toThrowError('Format "email" at position 7 is only allowed for string types');
+        expect(() => new SchemaDefinition('string(10..1)')).toThrowError(/min is larger than max/);
+        expect(() => new SchemaDefinition('string(url)')).toThrowError(/Unknown constraint "url" at position 7/);
+        expect(() => new SchemaDefinition('boolean(1..2)')).toThrowError(/only allowed for string, number, bigint and Array types/);
+        expect(() => new SchemaDefinition('5(0..3)')).toThrowError('Constraints at position 1 are not allowed for literal values');
+        expect(() => new SchemaDefinition('{ status: "open"(email) }')).toThrowError(/not allowed for literal values/);
+        expect(() => new SchemaDefinition('number(0 .. 100 200)')).toThrowError(/Unknown constraint "0..100 200" at position 7/);
+
+        // Spaces are allowed in constraints
+        const spaced = new SchemaDefinition('{ age: number( 0 .. 150 ), email: string( email , .. 100 ) }');
+        expect(spaced.type.children[0].types[0].range).toEqual({ min: 0, max: 150 });
+        expect(spaced.type.children[1].types[0]).toEqual({ typeOf: 'string', format: 'email', range: { max: 100 } });
+
+        // JSON Schema
+        const json = schema.toJSONSchema();
+        expect(json.properties.name).toEqual({ type: 'string', minLength: 1, maxLength: 50 });
+        expect(json.properties.email).toEqual({ type: 'string', maxLength: 100, format: 'email' });
+        expect(json.properties.birthday).toEqual({ type: 'string', format: 'date' });
+        expect(json.properties.scores).toEqual({ type: 'array', items: { type: 'number', minimum: 0, maximum: 10 }, minItems: 1 });
+        expect(json.properties.code).toEqual({ type: 'string', minLength: 2, maxLength: 4, pattern: '^[A-Z]+$' });
+        expect(SchemaDefinition.fromJSONSchema(json).toJSONSchema()).toEqual(json);
+    });
+    it('can report all violations', async () => {
+        const schema = new SchemaDefinition({
+            name: 'string(1..50)',
+            email: 'string(email)',
+            'age?': 'number(0..150)',
+            'tags?': 'string(1..)[]',
+            'address?': { street: 'string', city: 'string' },
+            'contacts?': { '$id': { name: 'string', phone: 'string|number' } },
+        });
+        const user = { name: '', age: 200, tags: ['a', ''], address: { street: 5 }, contacts: { c1: { name: 'Pete', phone: true } }, extra: 1 };
+
+        // By default, the check stops at the first violation
+        expect(schema.check('users/u1', user, false)).toEqual({ ok: false, reason: 'Object at path "users/u1" cannot have property "extra"' });
+
+        const result = schema.check('users/u1', user, false, undefined, { all: true });
+        expect(result.ok).toBeFalse();
+        expect(result.violations).toEqual([
+            { path: 'users/u1/extra', expected: 'undefined', actual: 1, message: 'Object at path "users/u1" cannot have property "extra"' },
+            { path: 'users/u1/name', expected: 'string(1..50)', actual: '', message: 'path "users/u1/name" must have a length in range 1..50' },
+            { path: 'users/u1/email', expected: 'string(email)', actual: undefined, message: 'Property at path "users/u1/email" is not optional' },
+            { path: 'users/u1/age', expected: 'number(0..150)', actual: 200, message: 'path "users/u1/age" must be in range 0..150' },
+            { path: 'users/u1/tags[1]', expected: 'string(1..)', actual: '', message: 'path "users/u1/tags[1]" must have a length in range 1..' },
+            { path: 'users/u1/address/street', expected: 'string', actual: 5, message: 'path "users/u1/address/street" must be typeof string' },
+            { path: 'users/u1/address/city', expected: 'string', actual: undefined, message: 'Property at path "users/u1/address/city" is not optional' },
+            { path: 'users/u1/contacts/c1/phone', expected: 'string|number', actual: true, message: 'Property at path "users/u1/contacts/c1/phone" does not match any of 2 allowed types' },
+        ]);
+        expect(result.reason).toBe(result.violations.map(v => v.message).join('; '));
+
+        // Partial updates and child paths
+        expect(schema.check('users/u1', { name: null, age: -1 }, true, undefined, { all: true }).violations.map(v => v.path)).toEqual(['users/u1/name', 'users/u1/age']);
+        expect(schema.check('users/u1', { street: 5, city: 5 }, false, ['address'], { all: true }).violations.map(v => v.path)).toEqual(['users/u1/address/street', 'users/u1/address/city']);
+        expect(schema.check('users/u1', { name: 'Ewout', email: 'me@example.com' }, false, undefined, { all: true })).toEqual({ ok: true, violations: [] });
+
+        // Warnings contain all violations
+        const warnings = [] as string[];
+        const warnOnly = new SchemaDefinition(schema.text, { warnOnly: true, warnCallback: message => warnings.push(message) });
+        const warned = warnOnly.check('users/u1', { name: 5 }, false, undefined, { all: true });
+        expect(warned.ok).toBeTrue();
+        expect(warned.violations.length).toBe(2);
+        expect(warnings).toEqual(['Schema check on path "users/u1" failed: path "users/u1/name" must be typeof string; Property at path "users/u1/email" is not optional']);
+    });
+    it('can use named types', async () => {
+        SchemaDefinition.defineType('Address', { street: 'string', city: 'string', 'zip?': 'string(1..10)' });
+        SchemaDefinition.defineType('Customer', '{ name: string, address: Address, shipTo?: Address[] }');
+
+        const schema = new SchemaDefinition({ customer: 'Customer', 'billTo?': 'Address' });
+        expect(schema.text).toBe('{customer:Customer,billTo?:Address}');
+        const address = { street: 'Main street', city: 'Amsterdam' };
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address, shipTo: [address] }, billTo: address }, false)).toEqual(ok);
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address: { street: 'Main street' } } }, false).reason).toBe('Property at path "orders/o1/customer/address/city" is not optional');
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address, shipTo: [{ city: 5 }] } }, false).reason).toBe('every array value of path "orders/o1/customer/shipTo" must match one of the specified types');
+        expect(schema.check('orders/o1', 'Utrecht', false, ['customer', 'address', 'city'])).toEqual(ok);
+        expect(schema.check('orders/o1', { customer: 'Ewout' }, false, undefined, { all: true }).violations).toEqual([
+            { path: 'orders/o1/customer', expected: 'Customer', actual: 'Ewout', message: 'path "orders/o1/customer" must be an object collection' },
+        ]);
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address }, billTo: 'home' }, false, undefined, { all: true }).violations[0].expected).toBe('Address');
+
+        // Recursive types
+        SchemaDefinition.defineType('Category', '{ name: string, children?: Category[] }');
+        SchemaDefinition.defineTypes({ Person: '{ name: string, employer?: Company }', Company: '{ name: string, employees?: Person[] }' });
+        const categories = new SchemaDefinition('Category');
+        expect(categories.check('categories/c1', { name: 'Food', children: [{ name: 'Fruit', children: [{ name: 'Apples' }] }] }, false)).toEqual(ok);
+        expect(categories.check('categories/c1', { name: 'Food', children: [{ name: 'Fruit', children: [{ name: 5 }] }] }, false, undefined, { all: true }).violations.map(v => v.path))
+            .toEqual(['categories/c1/children[0]/children[0]/name']);
+        const people = new SchemaDefinition('Person');
+        expect(people.check('people/p1', { name: 'Ewout', employer: { name: 'Appy', employees: [{ name: 'Pete' }] } }, false)).toEqual(ok);
+        expect(people.check('people/p1', { name: 'Ewout', employer: { name: 'Appy', employees: [{ name: 'Pete', employer: 'Appy' }] } }, false).ok).toBeFalse();
+
+        // JSON Schema uses $defs
+        const json = new SchemaDefinition('{ main: Category, customer?: Customer }').toJSONSchema();
+        expect(json.properties.main).toEqual({ $ref: '#/$defs/Category' });
+        expect(Object.keys(json.$defs).sort()).toEqual(['Address', 'Category', 'Customer']);
+        expect(json.$defs.Category.properties.children).toEqual({ type: 'array', items: { $ref: '#/$defs/Category' } });
+
+        // Errors name the types involved
+        expect(() => new SchemaDefinition('{ address: Adress }')).toThrowError('Unknown type "Adress" at position 11');
+        expect(() => SchemaDefinition.defineType('Supplier', '{ name: string, address: PostalAddress }'))
+            .toThrowError('Invalid definition of type "Supplier": Unknown type "PostalAddress" at position 25 in type "Supplier" (Supplier > PostalAddress)');
+        expect(() => SchemaDefinition.defineTypes({ LoopA: 'LoopB', LoopB: 'LoopA' }))
+            .toThrowError('Invalid definition of types "LoopA", "LoopB": Type "LoopA" refers to itself without an object or Array: LoopA > LoopB > LoopA');
+        expect(() => new SchemaDefinition('{ supplier?: Supplier, loop?: LoopA }')).toThrowError(/Unknown type "Supplier"/);
+        expect(() => SchemaDefinition.defineType('Broken', '{ name: }')).toThrowError(/^Invalid definition of type "Broken": /);
+        expect(() => SchemaDefinition.defineType('string', '{ name: string }')).toThrowError('Invalid type name "string": it is a built-in type');
+        expect(() => SchemaDefinition.defineType('my-type', 'string')).toThrowError(/^Invalid type name "my-type"/);
+        expect(() => new SchemaDefinition('Address(1..2)')).toThrowError(/only allowed for string, number, bigint and Array types/);
+
+        // Redefinitions are checked too, and undone if invalid
+        expect(() => SchemaDefinition.defineType('Address', 'Customer')).not.toThrow();
+        expect(() => SchemaDefinition.defineType('Customer', 'Address')).toThrowError(/^Invalid definition of type "Customer": Type "Address" refers to itself/);
+        SchemaDefinition.defineType('Address', { street: 'string', city: 'string' });
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address } }, false)).toEqual(ok);
+
+        // Removing types
+        expect(() => SchemaDefinition.undefineType('Address')).toThrowError('Cannot undefine type "Address": it is used by type "Customer"');
+        expect(() => SchemaDefinition.undefineType('Person')).toThrowError('Cannot undefine type "Person": it is used by type "Company"');
+        SchemaDefinition.undefineType('Customer', 'Address', 'Category', 'Person', 'Company');
+        expect(() => new SchemaDefinition('Address')).toThrowError('Unknown type "Address" at position 0');
+
+        // Schema definitions using removed types can't check values until the types are defined again
+        expect(() => schema.check('orders/o1', { customer: { name: 'Ewout', address } }, false)).toThrowError(`Cannot check path "orders/o1" with schema definition "${schema.text}": Unknown type "Customer"`);
+        SchemaDefinition.defineTypes({ Customer: '{ name: string, address: Address }', Address: '{ street: string, city: string }' });
+        expect(schema.check('orders/o1', { customer: { name: 'Ewout', address } }, false)).toEqual(ok);
+        SchemaDefinition.undefineType('Customer', 'Address');
+    });
 });
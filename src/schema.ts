@@ -6,8 +6,20 @@ export interface IType {
     genericTypes?: IType[];
     children?: IProperty[];
     matches?: RegExp; // enforces regular expression checks on values
+    range?: { min?: number, max?: number }; // enforces the range of numeric values, or the length of strings and arrays
+    format?: string; // enforces a named format on string values, eg 'email'
+    alias?: string; // name of a type defined with SchemaDefinition.defineType, typeOf is 'alias'
 }
 
+/**
+ * Named formats that can be enforced on string values, eg `string(email)`
+ */
+const formats: Record<string, (value: string) => boolean> = {
+    'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    'uuid': value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+    'iso-date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value),
+};
+
 export interface IProperty {
     name: string;
     optional: boolean;
@@ -15,8 +27,28 @@ export interface IProperty {
     types: IType[];
 }
 
+/**
+ * Reference to a named type in a type definition
+ */
+interface TypeReference {
+    name: string;
+    position: number;
+}
+
+/**
+ * Types defined with `SchemaDefinition.defineType`, by name
+ */
+const namedTypes = new Map<string, { type: IType, references: TypeReference[] }>();
+
+/**
+ * Names that cannot be used for named types, because the parser uses them
+ */
+const reservedTypeNames = ['string','number','boolean','bigint','undefined','String','Number','Boolean','BigInt','Object','object','Date','Binary','binary','any','null','Array','true','false'];
+
 // parses a typestring, creates checker functions
-function parse(definition: string) {
+// references to named types are added to given references array, they are resolved when checking values
+// input after the root type is an error, unless a warn callback is given: then it is ignored with a warning
+function parse(definition: string, references: TypeReference[] = [], warn?: (message: string) => void) {
     // tokenize
     let pos = 0;
     function consumeSpaces() {
@@ -57,8 +89,9 @@ function parse(definition: string) {
         let type: IType = { typeOf: 'any' }, c;
 
         // try reading simple type first: (string,number,boolean,Date etc)
+        const start = pos;
         let name = '';
-        while (c = definition[pos], (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z')) {
+        while (c = definition[pos], (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || (name.length > 0 && ((c >= '0' && c <= '9') || c === '_'))) {
             name += c;
             pos++;
         }
@@ -91,7 +124,8 @@ function parse(definition: string) {
                     pos++;
                 }
                 if (nr.endsWith('n')) {
-                    type.value = BigInt(nr);
+                    type.typeOf = 'bigint';
+                    type.value = BigInt(nr.slice(0, -1));
                 }
                 else if (nr.includes('.')) {
                     type.value = parseFloat(nr);
@@ -105,9 +139,10 @@ function parse(definition: string) {
                 consumeCharacter('{');
                 type.typeOf = 'object';
                 type.instanceOf = Object;
-                // Read children:
+                // Read children, {} is an object without properties:
                 type.children = [];
-                while (true) {
+                consumeSpaces();
+                while (definition[pos] !== '}') {
                     const prop = readProperty();
                     const types = readTypes();
                     type.children.push({ name: prop.name, optional: prop.optional, wildcard: prop.wildcard, types });
@@ -116,7 +151,6 @@ function parse(definition: string) {
                         consumeCharacter(definition[pos]);
                         consumeSpaces();
                     }
-                    if (definition[pos] === '}') { break; }
                 }
                 consumeCharacter('}');
             }
@@ -176,9 +210,14 @@ function parse(definition: string) {
             type.value = name === 'true';
         }
         else {
-            throw new Error(`Unknown type at position ${pos}: "${type}"`);
+            // Named type, eg: Address
+            type.typeOf = 'alias';
+            type.alias = name;
+            references.push({ name, position: start });
         }
 
+        readConstraints(type);
+
         // Check if it's an Array of given type (eg: string[] or string[][])
         // Also converts to generics, string[] becomes Array<string>, string[][] becomes Array<Array<string>>
         consumeSpaces();
@@ -186,9 +225,53 @@ function parse(definition: string) {
             consumeCharacter('[');
             consumeCharacter(']');
             type = { typeOf: 'object', instanceOf: Array, genericTypes: [type] };
+            readConstraints(type);
         }
         return type;
     }
+    function readConstraints(type: IType) {
+        // Read constraints, eg: number(0..100), string(1..255), string(email), Array<string>(..10)
+        consumeSpaces();
+        if (definition[pos] !== '(') { return; }
+        const start = pos;
+        consumeCharacter('(');
+        if ('value' in type) {
+            throw new Error(`Constraints at position ${start} are not allowed for literal values`);
+        }
+        const isString = type.typeOf === 'string';
+        if (!isString && !['number','bigint'].includes(type.typeOf) && type.instanceOf !== Array) {
+            throw new Error(`Constraints at position ${start} are only allowed for string, number, bigint and Array types`);
+        }
+        while (true) {
+            consumeSpaces();
+            const constraintStart = pos;
+            while (definition[pos] && ![',',')'].includes(definition[pos])) { pos++; }
+            // Spaces are allowed around the range operator, eg "0 .. 100"
+            const constraint = definition.slice(constraintStart, pos).trim().replace(/\s*\.\.\s*/, '..');
+            const range = constraint.match(/^(-?\d+(?:\.\d+)?)?\.\.(-?\d+(?:\.\d+)?)?$/);
+            if (range && (range[1] || range[2])) {
+                type.range = {};
+                if (range[1]) { type.range.min = parseFloat(range[1]); }
+                if (range[2]) { type.range.max = parseFloat(range[2]); }
+                if (type.range.min > type.range.max) {
+                    throw new Error(`Invalid range "${constraint}" at position ${constraintStart}: min is larger than max`);
+                }
+            }
+            else if (constraint in formats) {
+                if (!isString) {
+                    throw new Error(`Format "${constraint}" at position ${constraintStart} is only allowed for string types`);
+                }
+                type.format = constraint;
+            }
+            else {
+                throw new Error(`Unknown constraint "${constraint}" at position ${constraintStart}. Expected a range (eg 0..100, 1.., ..10) or one of the formats ${Object.keys(formats).join(', ')}`);
+            }
+            consumeSpaces();
+            if (definition[pos] === ')') { break; }
+            consumeCharacter(',');
+        }
+        consumeCharacter(')');
+    }
     function readTypes() {
         consumeSpaces();
         const types = [readType()];
@@ -199,10 +282,101 @@ function parse(definition: string) {
         }
         return types;
     }
-    return readType();
+    const type = readType();
+    consumeSpaces();
+    if (pos < definition.length) {
+        const message = definition[pos] === '|'
+            ? `Unions are not supported at the root of a type definition (position ${pos}), only for properties and Array values`
+            : `Unexpected character '${definition[pos]}' at position ${pos}, expected the end of the type definition`;
+        if (!warn) {
+            throw new Error(message);
+        }
+        warn(`${message}. Ignoring "${definition.slice(pos)}" in type definition "${definition}"`);
+    }
+    return type;
+}
+
+/**
+ * Gets the type a named type refers to. If it is defined as another named type, that one is resolved too
+ * @internal
+ */
+export function getNamedType(name: string) {
+    const chain = [name];
+    let named = namedTypes.get(name);
+    while (named?.type.alias) {
+        chain.push(named.type.alias);
+        if (chain.indexOf(named.type.alias) < chain.length - 1) {
+            throw new Error(`Type "${name}" refers to itself without an object or Array: ${chain.join(' > ')}`);
+        }
+        named = namedTypes.get(named.type.alias);
+    }
+    if (!named) {
+        throw new Error(`Unknown type "${chain[chain.length - 1]}"${chain.length > 1 ? ` (${chain.join(' > ')})` : ''}`);
+    }
+    return named.type;
+}
+
+/**
+ * Checks if referenced named types are defined and can be resolved, throws an error naming the chain of types involved if not
+ * @param references references found by the parser
+ * @param chain names of the types the references are in
+ * @param checked names of the types that have been checked already
+ */
+function checkReferences(references: TypeReference[], chain: string[] = [], checked = new Set<string>()) {
+    references.forEach(ref => {
+        const named = namedTypes.get(ref.name);
+        if (!named) {
+            const location = chain.length > 0 ? ` in type "${chain[chain.length - 1]}" (${chain.concat(ref.name).join(' > ')})` : '';
+            throw new Error(`Unknown type "${ref.name}" at position ${ref.position}${location}`);
+        }
+        if (checked.has(ref.name)) { return; }
+        checked.add(ref.name);
+        checkReferences(named.references, chain.concat(ref.name), checked);
+        getNamedType(ref.name);
+    });
+}
+
+/**
+ * Changes the named types, then checks if the references of all named types can be resolved. The change is undone if not
+ * @param names names of the changed types, used in the error message
+ * @param change function that changes the named types
+ */
+function changeNamedTypes(names: string[], change: () => void) {
+    const previous = new Map(namedTypes);
+    change();
+    try {
+        namedTypes.forEach((named, name) => {
+            checkReferences(named.references, [name]);
+            getNamedType(name);
+        });
+    }
+    catch (err) {
+        namedTypes.clear();
+        previous.forEach((named, name) => namedTypes.set(name, named));
+        throw new Error(`Invalid definition of type${names.length === 1 ? '' : 's'} ${names.map(name => `"${name}"`).join(', ')}: ${err.message}`);
+    }
+}
+
+/**
+ * Gets the text of a parsed type, eg `"Array<string(1..20)>"`
+ */
+function getTypeText(type: IType): string {
+    let text: string;
+    if (type.alias) { text = type.alias; }
+    else if (type.typeOf === 'any') { text = 'any'; }
+    else if ('value' in type) { text = type.value === null ? 'null' : typeof type.value === 'string' ? `"${type.value}"` : typeof type.value === 'bigint' ? `${type.value}n` : `${type.value}`; }
+    else if (type.instanceOf === Array) { text = `Array<${type.genericTypes ? type.genericTypes.map(getTypeText).join('|') : 'any'}>`; }
+    else if (type.instanceOf === Date) { text = 'Date'; }
+    else if (type.instanceOf === ArrayBuffer) { text = 'Binary'; }
+    else if (type.children) { text = `{${type.children.map(prop => `${prop.name}${prop.optional ? '?' : ''}:${prop.types.map(getTypeText).join('|')}`).join(',')}}`; }
+    else if (type.instanceOf === Object) { text = 'Object'; }
+    else if (type.matches) { text = `/${type.matches.source}/${type.matches.flags}`; }
+    else { text = type.typeOf; }
+    const constraints = [type.format, type.range && `${type.range.min ?? ''}..${type.range.max ?? ''}`].filter(c => typeof c === 'string');
+    return constraints.length > 0 ? `${text}(${constraints.join(',')})` : text;
 }
 
-function checkObject(path: string, properties: IProperty[], obj: Record<string, any>, partial: boolean) {
+function checkObject(path: string, properties: IProperty[], obj: Record<string, any>, partial: boolean, all: boolean): ISchemaViolation[] {
     // Are there any properties that should not be in there?
     const invalidProperties =
         properties.find(prop => prop.name === '*' || prop.name[0] === '$') // Only if no wildcard properties are allowed
@@ -211,108 +385,165 @@ function checkObject(path: string, properties: IProperty[], obj: Record<string,
                 ![null,undefined].includes(obj[key]) // Ignore null or undefined values
                 && !properties.find(prop => prop.name === key),
             );
-    if (invalidProperties.length > 0) {
-        return { ok: false, reason: `Object at path "${path}" cannot have propert${invalidProperties.length === 1 ? 'y' : 'ies'} ${invalidProperties.map(p => `"${p}"`).join(', ')}`};
+    if (invalidProperties.length > 0 && !all) {
+        return [{ path, expected: getTypeText({ typeOf: 'object', instanceOf: Object, children: properties }), actual: obj, message: `Object at path "${path}" cannot have propert${invalidProperties.length === 1 ? 'y' : 'ies'} ${invalidProperties.map(p => `"${p}"`).join(', ')}` }];
     }
+    const violations = invalidProperties.map(key => ({ path: `${path}/${key}`, expected: 'undefined', actual: obj[key], message: `Object at path "${path}" cannot have property "${key}"` }));
+
     // Loop through properties that should be present
-    function checkProperty(property: IProperty) {
-        const hasValue = ![null,undefined].includes(obj[property.name]);
-        if (!property.optional && (partial ? obj[property.name] === null : !hasValue)) {
-            return { ok: false, reason: `Property at path "${path}/${property.name}" is not optional` };
+    function checkProperty(property: IProperty): ISchemaViolation[] {
+        const propertyPath = `${path}/${property.name}`;
+        const value = obj[property.name];
+        const hasValue = ![null,undefined].includes(value);
+        if (!property.optional && (partial ? value === null : !hasValue)) {
+            return [{ path: propertyPath, expected: property.types.map(getTypeText).join('|'), actual: value, message: `Property at path "${propertyPath}" is not optional` }];
         }
         if (hasValue && property.types.length === 1) {
-            return checkType(`${path}/${property.name}`, property.types[0], obj[property.name], false);
+            return checkType(propertyPath, property.types[0], value, false, undefined, all);
         }
-        if (hasValue && !property.types.some(type => checkType(`${path}/${property.name}`, type, obj[property.name], false).ok)) {
-            return { ok: false, reason: `Property at path "${path}/${property.name}" does not match any of ${property.types.length} allowed types` };
+        if (hasValue && !property.types.some(type => checkType(propertyPath, type, value, false, undefined, false).length === 0)) {
+            return [{ path: propertyPath, expected: property.types.map(getTypeText).join('|'), actual: value, message: `Property at path "${propertyPath}" does not match any of ${property.types.length} allowed types` }];
         }
-        return { ok: true };
+        return [];
     }
     const namedProperties = properties.filter(prop => !prop.wildcard);
-    const failedProperty = namedProperties.find(prop => !checkProperty(prop).ok);
-    if (failedProperty) {
-        const reason = checkProperty(failedProperty).reason;
-        return { ok: false, reason };
-    }
     const wildcardProperty = properties.find(prop => prop.wildcard);
-    if (!wildcardProperty) {
-        return { ok: true };
-    }
-    const wildcardChildKeys = Object.keys(obj).filter(key => !namedProperties.find(prop => prop.name === key));
-    let result = { ok: true };
-    for (let i = 0; i < wildcardChildKeys.length && result.ok; i++) {
-        const childKey = wildcardChildKeys[i];
-        result = checkProperty({ name: childKey, types: wildcardProperty.types, optional: true, wildcard: true });
+    const wildcardChildKeys = wildcardProperty ? Object.keys(obj).filter(key => !namedProperties.find(prop => prop.name === key)) : [];
+    const checks = namedProperties.concat(wildcardChildKeys.map(childKey => ({ name: childKey, types: wildcardProperty.types, optional: true, wildcard: true })));
+    for (let i = 0; i < checks.length && (all || violations.length === 0); i++) {
+        violations.push(...checkProperty(checks[i]));
     }
-    return result;
+    return violations;
+}
+
+export interface ISchemaViolation {
+    /**
+     * Path of the value that violates the schema
+     */
+    path: string,
+    /**
+     * Expected type, eg `"number(0..100)"` or `"string|undefined"`. `"undefined"` if the property is not allowed
+     */
+    expected: string,
+    /**
+     * The violating value, `undefined` or `null` for missing properties
+     */
+    actual: any,
+    message: string,
 }
 
 export interface ISchemaCheckResult {
     ok: boolean,
+    /**
+     * Why the check failed. If all violations were collected, the messages of all violations
+     */
     reason?: string,
     warning?: string,
+    /**
+     * All violations, only if the check was done with option `all`
+     */
+    violations?: ISchemaViolation[],
 }
-function checkType(path: string, type: IType, value: any, partial: boolean, trailKeys?: Array<string|number>) : ISchemaCheckResult {
-    const ok = { ok: true };
 
+export interface ISchemaCheckOptions {
+    /**
+     * Whether to collect all violations in `violations`, instead of stopping at the first one
+     * @default false
+     */
+    all?: boolean,
+}
+
+function checkType(path: string, type: IType, value: any, partial: boolean, trailKeys: Array<string|number> | undefined, all: boolean) : ISchemaViolation[] {
+    const violation = (message: string, violationPath = path, expected = getTypeText(type), actual = value): ISchemaViolation => ({ path: violationPath, expected, actual, message });
+
+    if (type.alias) {
+        // Violations of the value itself expect the named type, not its definition
+        const namedType = getNamedType(type.alias);
+        return checkType(path, namedType, value, partial, trailKeys, all)
+            .map(v => v.path === path && v.expected === getTypeText(namedType) ? { ...v, expected: type.alias } : v);
+    }
     if (type.typeOf === 'any') {
-        return ok;
+        return [];
     }
 
     if (trailKeys instanceof Array && trailKeys.length > 0) {
         // The value to check resides in a descendant path of given type definition.
         // Recursivly check child type definitions to find a match
         if (type.typeOf !== 'object') {
-            return { ok: false, reason: `path "${path}" must be typeof ${type.typeOf}` }; // given value resides in a child path, but parent is not allowed be an object.
+            return [violation(`path "${path}" must be typeof ${type.typeOf}`)]; // given value resides in a child path, but parent is not allowed be an object.
         }
         if (!type.children) {
-            return ok;
+            return [];
         }
         const childKey = trailKeys[0];
+        const childPath = typeof childKey === 'number' ? `${path}[${childKey}]` : `${path}/${childKey}`;
         let property = type.children.find(prop => prop.name === childKey);
         if (!property) {
             property = type.children.find(prop => prop.name === '*' || prop.name[0] === '$');
         }
         if (!property) {
-            return { ok: false, reason: `Object at path "${path}" cannot have property "${childKey}"` };
+            return [violation(`Object at path "${path}" cannot have property "${childKey}"`, childPath, 'undefined')];
         }
         if (property.optional && value === null && trailKeys.length === 1) {
-            return ok;
+            return [];
         }
-        let result:ISchemaCheckResult;
+        let violations: ISchemaViolation[];
         property.types.some(type => {
-            const childPath = typeof childKey === 'number' ? `${path}[${childKey}]` : `${path}/${childKey}`;
-            result = checkType(childPath, type, value, partial, trailKeys.slice(1));
-            return result.ok;
+            violations = checkType(childPath, type, value, partial, trailKeys.slice(1), all);
+            return violations.length === 0;
         });
-        return result;
+        return violations;
     }
 
     if (value === null) {
-        return ok;
+        return [];
     }
     if (type.instanceOf === Object && (typeof value !== 'object' || value instanceof Array || value instanceof Date)) {
-        return { ok: false, reason: `path "${path}" must be an object collection` };
+        return [violation(`path "${path}" must be an object collection`)];
     }
     if (type.instanceOf && (typeof value !== 'object' || value.constructor !== type.instanceOf)) { // !(value instanceof type.instanceOf) // value.constructor.name !== type.instanceOf
-        return { ok: false, reason: `path "${path}" must be an instance of ${type.instanceOf.name}` };
+        return [violation(`path "${path}" must be an instance of ${type.instanceOf.name}`)];
     }
     if ('value' in type && value !== type.value) {
-        return { ok: false, reason: `path "${path}" must be value: ${type.value}` };
+        return [violation(`path "${path}" must be value: ${type.value}`)];
     }
     if (typeof value !== type.typeOf) {
-        return { ok: false, reason: `path "${path}" must be typeof ${type.typeOf}` };
+        return [violation(`path "${path}" must be typeof ${type.typeOf}`)];
+    }
+    const violations = [] as ISchemaViolation[];
+    const done = () => !all && violations.length > 0;
+    if (type.instanceOf === Array && type.genericTypes) {
+        const isValid = (v: any) => type.genericTypes.some(t => checkType(path, t, v, false, undefined, false).length === 0);
+        if (!all && !(value as Array<any>).every(isValid)) {
+            return [violation(`every array value of path "${path}" must match one of the specified types`)];
+        }
+        (value as Array<any>).forEach((v, i) => {
+            if (!all || isValid(v)) { return; }
+            const expected = type.genericTypes.map(getTypeText).join('|');
+            violations.push(...type.genericTypes.length === 1
+                ? checkType(`${path}[${i}]`, type.genericTypes[0], v, false, undefined, true)
+                : [violation(`Array value at path "${path}[${i}]" does not match any of ${type.genericTypes.length} allowed types`, `${path}[${i}]`, expected, v)]);
+        });
+    }
+    if (type.range) {
+        const { min, max } = type.range;
+        const isLength = typeof value === 'string' || value instanceof Array;
+        const size = isLength ? value.length : value;
+        if ((typeof min === 'number' && size < min) || (typeof max === 'number' && size > max)) {
+            const range = `${min ?? ''}..${max ?? ''}`;
+            violations.push(violation(`path "${path}" must ${isLength ? 'have a length' : 'be'} in range ${range}`));
+        }
     }
-    if (type.instanceOf === Array && type.genericTypes && !(value as Array<any>).every(v => type.genericTypes.some(t => checkType(path, t, v, false).ok ))) {
-        return { ok: false, reason: `every array value of path "${path}" must match one of the specified types` };
+    if (!done() && type.typeOf === 'object' && type.children) {
+        violations.push(...checkObject(path, type.children, value, partial, all));
     }
-    if (type.typeOf === 'object' && type.children) {
-        return checkObject(path, type.children, value, partial);
+    if (!done() && type.matches && !type.matches.test(value)) {
+        violations.push(violation(`path "${path}" must match regular expression /${type.matches.source}/${type.matches.flags}`));
     }
-    if (type.matches && !type.matches.test(value)) {
-        return { ok: false, reason: `path "${path}" must match regular expression /${type.matches.source}/${type.matches.flags}` };
+    if (!done() && type.format && !formats[type.format](value)) {
+        violations.push(violation(`path "${path}" must be a valid ${type.format}`));
     }
-    return ok;
+    return violations;
 }
 
 // eslint-disable-next-line @typescript-eslint/ban-types
@@ -328,49 +559,388 @@ function getConstructorType(val: Function) {
     }
 }
 
+/**
+ * JSON Schema (draft 2020-12) document or subschema
+ */
+export type JSONSchema = boolean | { [keyword: string]: any };
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * JSON Schema string formats and the named formats they map to
+ */
+const jsonSchemaFormats: Record<string, string> = { 'email': 'email', 'uuid': 'uuid', 'date': 'iso-date' };
+
+/**
+ * Gets the JSON Schema keywords for the range constraint of a type
+ */
+function getRangeKeywords(type: IType, minKeyword: string, maxKeyword: string) {
+    const keywords = {} as Record<string, number>;
+    if (typeof type.range?.min === 'number') { keywords[minKeyword] = type.range.min; }
+    if (typeof type.range?.max === 'number') { keywords[maxKeyword] = type.range.max; }
+    return keywords;
+}
+
+/**
+ * Converts a parsed type to JSON Schema
+ */
+function typeToJSONSchema(type: IType, aliases: Set<string>): Record<string, any> {
+    if (type.alias) {
+        aliases.add(type.alias);
+        return { $ref: `#/$defs/${type.alias}` };
+    }
+    if (type.typeOf === 'any') {
+        return {};
+    }
+    if ('value' in type) {
+        if (typeof type.value === 'bigint') {
+            throw new Error(`Cannot convert bigint value ${type.value}n to JSON Schema`);
+        }
+        return type.value === null ? { type: 'null' } : { const: type.value };
+    }
+    switch (type.instanceOf) {
+        case Date: return { type: 'string', format: 'date-time' };
+        case ArrayBuffer: return { type: 'string', contentEncoding: 'base64' };
+        case Array: return { type: 'array', ...(type.genericTypes && { items: typesToJSONSchema(type.genericTypes, aliases) }), ...getRangeKeywords(type, 'minItems', 'maxItems') };
+    }
+    switch (type.typeOf) {
+        case 'string': {
+            const schema: Record<string, any> = { type: 'string', ...getRangeKeywords(type, 'minLength', 'maxLength') };
+            if (type.format) {
+                schema.format = Object.keys(jsonSchemaFormats).find(format => jsonSchemaFormats[format] === type.format);
+            }
+            if (type.matches) {
+                // JSON Schema patterns have no flags, keep them in an annotation so fromJSONSchema can restore them
+                const flags = type.matches.flags.replace(/[gy]/g, '');
+                schema.pattern = type.matches.source;
+                if (flags) { schema['x-regexFlags'] = flags; }
+            }
+            return schema;
+        }
+        case 'number': return { type: 'number', ...getRangeKeywords(type, 'minimum', 'maximum') };
+        case 'boolean': return { type: 'boolean' };
+        case 'bigint': return { type: 'integer', format: 'bigint', ...getRangeKeywords(type, 'minimum', 'maximum') };
+        case 'undefined': throw new Error('Cannot convert undefined type to JSON Schema, use an optional property instead');
+        case 'object': {
+            if (!type.children) { return { type: 'object' }; }
+            const schema: Record<string, any> = { type: 'object', properties: {} as Record<string, any> };
+            const required = [] as string[];
+            type.children.forEach(prop => {
+                const types = prop.types.filter(t => t.typeOf !== 'undefined');
+                if (prop.wildcard) {
+                    schema.additionalProperties = typesToJSONSchema(types, aliases);
+                    return;
+                }
+                schema.properties[prop.name] = typesToJSONSchema(types, aliases);
+                if (!prop.optional && types.length === prop.types.length) { required.push(prop.name); }
+            });
+            if (required.length > 0) { schema.required = required; }
+            if (!('additionalProperties' in schema)) { schema.additionalProperties = false; }
+            return schema;
+        }
+    }
+    throw new Error(`Cannot convert type ${type.typeOf} to JSON Schema`);
+}
+
+/**
+ * Converts the allowed types of a value to JSON Schema
+ */
+function typesToJSONSchema(types: IType[], aliases: Set<string>): Record<string, any> {
+    if (types.some(type => type.typeOf === 'any')) { return {}; }
+    return types.length === 1 ? typeToJSONSchema(types[0], aliases) : { anyOf: types.map(type => typeToJSONSchema(type, aliases)) };
+}
+
+/**
+ * Converts JSON Schema to a type definition string
+ */
+function jsonSchemaToText(schema: JSONSchema, root: JSONSchema, refs: string[] = []): string {
+    if (schema === true) { return 'any'; }
+    if (schema === false) { throw new Error('JSON Schema false (no value allowed) cannot be converted'); }
+    if (typeof schema !== 'object' || schema === null) { throw new Error('JSON Schema must be an object or boolean'); }
+    const unsupported = ['allOf', 'not', 'if', 'then', 'else', 'patternProperties', 'prefixItems', 'dependentSchemas', '$dynamicRef'].filter(keyword => keyword in schema);
+    if (unsupported.length > 0) {
+        throw new Error(`JSON Schema keyword${unsupported.length === 1 ? '' : 's'} ${unsupported.map(k => `"${k}"`).join(', ')} cannot be converted`);
+    }
+    if (typeof schema.$ref === 'string') {
+        // Local references are inlined
+        const match = (schema.$ref as string).match(/^#\/(\$defs|definitions)\/([^/]+)$/);
+        if (!match) { throw new Error(`JSON Schema reference "${schema.$ref}" cannot be converted, only local $defs are supported`); }
+        if (refs.includes(schema.$ref)) { throw new Error(`Recursive JSON Schema reference "${schema.$ref}" cannot be converted`); }
+        const def = typeof root === 'object' ? root[match[1]]?.[match[2]] : undefined;
+        if (typeof def === 'undefined') { throw new Error(`JSON Schema reference "${schema.$ref}" not found`); }
+        return jsonSchemaToText(def, root, refs.concat(schema.$ref));
+    }
+    const convert = (schema: JSONSchema) => jsonSchemaToText(schema, root, refs);
+    const literal = (value: any) => {
+        if (value === null) { return 'null'; }
+        if (typeof value === 'boolean') { return `${value}`; }
+        if (typeof value === 'number') {
+            if (value < 0 || !isFinite(value)) { throw new Error(`JSON Schema value ${value} cannot be converted, only positive numbers are supported`); }
+            return `${value}`;
+        }
+        if (typeof value === 'string') {
+            const quote = ['\'', '"', '`'].find(q => !value.includes(q));
+            if (!quote) { throw new Error(`JSON Schema string value "${value}" cannot be converted because it contains all quote characters`); }
+            return `${quote}${value}${quote}`;
+        }
+        throw new Error(`JSON Schema value ${JSON.stringify(value)} cannot be converted, only primitive values are supported`);
+    };
+    if ('const' in schema) {
+        return literal(schema.const);
+    }
+    if (schema.enum instanceof Array) {
+        return schema.enum.map(literal).join('|');
+    }
+    const union = schema.anyOf ?? schema.oneOf;
+    if (union instanceof Array) {
+        return union.map(convert).join('|');
+    }
+    if (schema.type instanceof Array) {
+        return schema.type.map((type: string) => convert({ ...schema, type })).join('|');
+    }
+    const constraints = (minKeyword: string, maxKeyword: string, format?: string) => {
+        const list = [] as string[];
+        const min = schema[minKeyword], max = schema[maxKeyword];
+        if (typeof min === 'number' || typeof max === 'number') { list.push(`${min ?? ''}..${max ?? ''}`); }
+        if (format) { list.push(format); }
+        return list.length > 0 ? `(${list.join(',')})` : '';
+    };
+    switch (schema.type) {
+        case 'string': {
+            if (schema.format === 'date-time') { return 'Date'; }
+            if (schema.contentEncoding === 'base64') { return 'Binary'; }
+            const format = constraints('minLength', 'maxLength', jsonSchemaFormats[schema.format]);
+            if (typeof schema.pattern === 'string') {
+                // Escape forward slashes for the regular expression literal
+                const pattern = (schema.pattern as string).replace(/\\.|\//g, match => match === '/' ? '\\/' : match);
+                return `/${pattern}/${schema['x-regexFlags'] ?? ''}${format}`;
+            }
+            return `string${format}`;
+        }
+        case 'integer': return `${schema.format === 'bigint' ? 'bigint' : 'number'}${constraints('minimum', 'maximum')}`;
+        case 'number': return `number${constraints('minimum', 'maximum')}`;
+        case 'boolean': return 'boolean';
+        case 'null': return 'null';
+        case 'array': {
+            const items = typeof schema.items === 'undefined' ? 'any' : convert(schema.items);
+            return `Array<${items}>${constraints('minItems', 'maxItems')}`;
+        }
+        case 'object': {
+            const properties = Object.keys(schema.properties ?? {});
+            const additional = schema.additionalProperties ?? true; // JSON Schema allows any other property by default
+            if (properties.length === 0 && additional === true) { return 'object'; }
+            const required = (schema.required ?? []) as string[];
+            const children = properties.map(name => {
+                if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) || name[0] === '$') {
+                    throw new Error(`JSON Schema property name "${name}" cannot be converted`);
+                }
+                return `${name}${required.includes(name) ? '' : '?'}:${convert(schema.properties[name])}`;
+            });
+            if (additional !== false) {
+                children.push(`*:${convert(additional)}`);
+            }
+            return `{${children.join(',')}}`;
+        }
+        case undefined: return 'any';
+        default: throw new Error(`JSON Schema type "${schema.type}" cannot be converted`);
+    }
+}
+
+/**
+ * Checks if a JSON Schema converts to a union of types, which cannot be used at the root of a type definition
+ */
+function isJSONSchemaUnion(schema: JSONSchema, root: JSONSchema): boolean {
+    if (typeof schema !== 'object' || schema === null || 'const' in schema) { return false; }
+    if (typeof schema.$ref === 'string') {
+        const [, defs, name] = (schema.$ref as string).match(/^#\/(\$defs|definitions)\/([^/]+)$/);
+        return typeof root === 'object' && isJSONSchemaUnion(root[defs][name], root);
+    }
+    if (schema.enum instanceof Array) { return schema.enum.length > 1; }
+    const union = schema.anyOf ?? schema.oneOf;
+    if (union instanceof Array) { return union.length > 1 || isJSONSchemaUnion(union[0], root); }
+    return schema.type instanceof Array && schema.type.length > 1;
+}
+
+/**
+ * Gets the text of an object or string type definition
+ */
+function getDefinitionText(definition: string|object) {
+    if (typeof definition === 'object') {
+        // Turn object into typescript definitions
+        // eg:
+        // const example = {
+        //     name: String,
+        //     born: Date,
+        //     instrument: "'guitar'|'piano'",
+        //     "address?": {
+        //         street: String
+        //     }
+        // };
+        // Resulting ts: "{name:string,born:Date,instrument:'guitar'|'piano',address?:{street:string}}"
+        const toTS = (obj: Record<string, any>) => {
+            return '{' + Object.keys(obj)
+                .map(key => {
+                    let val = obj[key];
+                    if (val === undefined) { val = 'undefined'; }
+                    else if (val instanceof RegExp) { val = `/${val.source}/${val.flags}`; }
+                    else if (typeof val === 'object') { val = toTS(val); }
+                    else if (typeof val === 'function') { val = getConstructorType(val); }
+                    else if (!['string','number','boolean','bigint'].includes(typeof val)) { throw new Error(`Type definition for key "${key}" must be a string, number, boolean, bigint, object, regular expression, or one of these classes: String, Number, Boolean, Date, BigInt`); }
+                    return `${key}:${val}`;
+                })
+                .join(',') + '}';
+        };
+        return toTS(definition);
+    }
+    else if (typeof definition === 'string') {
+        return definition;
+    }
+    else {
+        throw new Error('Type definiton must be a string or an object');
+    }
+}
+
 export class SchemaDefinition {
     readonly source: string|object;
     readonly text: string;
     readonly type: IType;
-    constructor(definition: string|object, public readonly handling: { warnOnly: boolean, warnCallback?: (message: string) => void } = { warnOnly: false }) {
+    /**
+     * @param definition type definition, a string or an object
+     * @param handling how to handle failed schema checks. Input after the root type of the definition (such as a union
+     * at the root) is ignored with a warning, because earlier versions silently ignored it and databases might have stored
+     * such definitions. Set `strict` to throw an error instead
+     */
+    constructor(definition: string|object, public readonly handling: { warnOnly: boolean, warnCallback?: (message: string) => void, strict?: boolean } = { warnOnly: false }) {
         this.source = definition;
-        if (typeof definition === 'object') {
-            // Turn object into typescript definitions
-            // eg:
-            // const example = {
-            //     name: String,
-            //     born: Date,
-            //     instrument: "'guitar'|'piano'",
-            //     "address?": {
-            //         street: String
-            //     }
-            // };
-            // Resulting ts: "{name:string,born:Date,instrument:'guitar'|'piano',address?:{street:string}}"
-            const toTS = (obj: Record<string, any>) => {
-                return '{' + Object.keys(obj)
-                    .map(key => {
-                        let val = obj[key];
-                        if (val === undefined) { val = 'undefined'; }
-                        else if (val instanceof RegExp) { val = `/${val.source}/${val.flags}`; }
-                        else if (typeof val === 'object') { val = toTS(val); }
-                        else if (typeof val === 'function') { val = getConstructorType(val); }
-                        else if (!['string','number','boolean','bigint'].includes(typeof val)) { throw new Error(`Type definition for key "${key}" must be a string, number, boolean, bigint, object, regular expression, or one of these classes: String, Number, Boolean, Date, BigInt`); }
-                        return `${key}:${val}`;
-                    })
-                    .join(',') + '}';
-            };
-            this.text = toTS(definition);
-        }
-        else if (typeof definition === 'string') {
-            this.text = definition;
+        this.text = getDefinitionText(definition);
+        const references = [] as TypeReference[];
+        this.type = parse(this.text, references, handling.strict ? undefined : handling.warnCallback ?? console.warn);
+        checkReferences(references);
+    }
+
+    /**
+     * Defines a named type that can be used in all schema definitions, eg `SchemaDefinition.defineType('Address', '{ street: string, city: string }')`
+     * to use `{ name: string, address: Address, 'shipTo?': Address }` in a schema. Named types can refer to other named types that
+     * are already defined, and to themselves (eg `'{ name: string, children?: Category[] }'`). Use `defineTypes` to define types that
+     * refer to each other. Redefining a type changes the checks of schema definitions that use it.
+     *
+     * Named types are not stored in the database: they must be defined in every process that creates or loads schema
+     * definitions using them, before the database loads its schemas.
+     * @param name name of the type, must start with a letter and can contain letters, digits and underscores
+     * @param definition type definition, a string or an object like the definitions of `new SchemaDefinition`
+     */
+    static defineType(name: string, definition: string|object) {
+        SchemaDefinition.defineTypes({ [name]: definition });
+    }
+
+    /**
+     * Defines multiple named types at once, which can refer to each other. See `defineType`
+     * @param definitions type definitions by name, eg `{ Person: '{ name: string, employer?: Company }', Company: '{ name: string, employees?: Person[] }' }`
+     */
+    static defineTypes(definitions: Record<string, string|object>) {
+        const types = Object.keys(definitions).map(name => {
+            if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) {
+                throw new Error(`Invalid type name "${name}": must start with a letter and can only contain letters, digits and underscores`);
+            }
+            if (reservedTypeNames.includes(name)) {
+                throw new Error(`Invalid type name "${name}": it is a built-in type`);
+            }
+            const text = getDefinitionText(definitions[name]);
+            const references = [] as TypeReference[];
+            try {
+                return { name, type: parse(text, references), references };
+            }
+            catch (err) {
+                throw new Error(`Invalid definition of type "${name}": ${err.message}`);
+            }
+        });
+        changeNamedTypes(types.map(t => t.name), () => types.forEach(({ name, type, references }) => namedTypes.set(name, { type, references })));
+    }
+
+    /**
+     * Removes named types defined with `defineType`, eg to clean up after tests. Types that are used by other named types
+     * can only be removed together with these. Schema definitions are not tracked, so ones that still use a removed type
+     * (including the schemas of databases) throw an error when checking values, failing writes to their paths, until the
+     * type is defined again. Remove such schemas first, eg with `db.schema.set(path, null)`
+     * @param names names of the types to remove
+     */
+    static undefineType(...names: string[]) {
+        const user = [...namedTypes.keys()].find(other => !names.includes(other) && namedTypes.get(other).references.some(ref => names.includes(ref.name)));
+        if (user) {
+            const used = namedTypes.get(user).references.find(ref => names.includes(ref.name)).name;
+            throw new Error(`Cannot undefine type "${used}": it is used by type "${user}"`);
         }
-        else {
-            throw new Error('Type definiton must be a string or an object');
+        names.forEach(name => namedTypes.delete(name));
+    }
+
+    /**
+     * Creates a schema definition from a JSON Schema (draft 2020-12) document. Supports objects, optional and additional
+     * (wildcard) properties, `const` and `enum` values, `anyOf`/`oneOf` unions, string `pattern`s, arrays, local `$ref`s
+     * to `$defs`, and dates (`format: "date-time"`), binary (`contentEncoding: "base64"`) and bigints
+     * (`type: "integer", format: "bigint"`).
+     *
+     * Cannot be converted (throws an error): `allOf`, `not`, `if`/`then`/`else`, `patternProperties`, `prefixItems`
+     * (tuples), recursive or external `$ref`s, negative or non-primitive values, property names that are not
+     * identifiers, and unions at the root (like type definitions, only properties and array items can have multiple types). `minimum`/`maximum`, `minLength`/`maxLength`, `minItems`/`maxItems` and the `email`, `uuid` and `date`
+     * formats become constraints. Lost in conversion: `oneOf` exclusivity, `integer` (becomes `number`), and other
+     * validation keywords such as `exclusiveMinimum` and `multipleOf`, which are ignored.
+     * @param schema JSON Schema document
+     * @param handling how to handle failed schema checks
+     */
+    static fromJSONSchema(schema: JSONSchema, handling?: { warnOnly: boolean, warnCallback?: (message: string) => void, strict?: boolean }) {
+        const text = jsonSchemaToText(schema, schema);
+        if (isJSONSchemaUnion(schema, schema)) {
+            throw new Error('JSON Schema unions (enum, anyOf, oneOf or multiple types) cannot be converted at the root, only for properties and array items');
         }
-        this.type = parse(this.text);
+        return new SchemaDefinition(text, handling);
     }
-    check(path: string, value: any, partial: boolean, trailKeys?: Array<string|number>) : ISchemaCheckResult {
-        const result = checkType(path, this.type, value, partial, trailKeys);
+
+    /**
+     * Converts this schema definition to a JSON Schema (draft 2020-12) document. Dates become date-time strings, binary
+     * values base64 strings, and bigints integers with format `"bigint"`. Regular expression flags are kept in an
+     * `x-regexFlags` annotation that other JSON Schema tools ignore.
+     *
+     * Cannot be converted (throws an error): bigint values (eg `5n`) and the `undefined` type outside of unions.
+     * Lost in conversion: names of wildcard properties (`$name` becomes `additionalProperties`).
+     * Named types become `$defs`, which are referenced with `$ref`.
+     */
+    toJSONSchema(): Record<string, any> {
+        const aliases = new Set<string>();
+        const schema: Record<string, any> = { $schema: JSON_SCHEMA_DIALECT, ...typeToJSONSchema(this.type, aliases) };
+        const defs = {} as Record<string, any>;
+        for (const name of aliases) { // also iterates names added while converting
+            defs[name] = typeToJSONSchema(namedTypes.get(name).type, aliases);
+        }
+        if (aliases.size > 0) {
+            schema.$defs = defs;
+        }
+        return schema;
+    }
+
+    /**
+     * Checks if a value matches the schema definition
+     * @param path path of the value, used in messages
+     * @param value value to check
+     * @param partial whether the value is a partial update: missing properties are allowed
+     * @param trailKeys keys of the child path the value is stored at, if it is a descendant of `path`
+     * @param options `all: true` to collect all violations instead of stopping at the first one
+     */
+    check(path: string, value: any, partial: boolean, trailKeys?: Array<string|number>, options?: ISchemaCheckOptions) : ISchemaCheckResult {
+        const all = options?.all === true;
+        let violations: ISchemaViolation[];
+        try {
+            violations = checkType(path, this.type, value, partial, trailKeys, all);
+        }
+        catch (err) {
+            // A named type used by this definition was removed with undefineType
+            throw new Error(`Cannot check path "${path}" with schema definition "${this.text}": ${err.message}`);
+        }
+        const result: ISchemaCheckResult = violations.length === 0
+            ? { ok: true }
+            : { ok: false, reason: violations.map(v => v.message).join('; ') };
+        if (all) {
+            result.violations = violations;
+        }
         if (!result.ok && this.handling.warnOnly) {
             // Only issue a warning, allows schema definitions to be added to a production db to monitor if they are accurate before enforcing them.
             result.warning = `${partial ? 'Partial schema' : 'Schema'} check on path "${path}"${trailKeys ? ` for child "${trailKeys.join('/')}"` : ''} failed: ${result.reason}`;
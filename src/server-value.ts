@@ -0,0 +1,122 @@
+import { valuesAreEqual } from './utils';
+
+export type ServerValueType = 'timestamp'|'increment'|'arrayUnion'|'arrayRemove';
+
+const types: ServerValueType[] = ['timestamp', 'increment', 'arrayUnion', 'arrayRemove'];
+
+/**
+ * Placeholder for a value that is determined by the database at the time it is stored. Can be used anywhere
+ * inside values passed to `set` and `update`, the database resolves them atomically with the write operation.
+ * @example
+ * await db.ref('users/ewout').update({
+ *    lastSeen: ServerValue.timestamp(),
+ *    visits: ServerValue.increment(1),
+ *    roles: ServerValue.arrayUnion('admin'),
+ * });
+ */
+export class ServerValue {
+    /**
+     * Creates a placeholder, use the static `timestamp`, `increment`, `arrayUnion` and `arrayRemove` methods instead
+     * @param type type of placeholder
+     * @param args arguments used to resolve the value
+     */
+    constructor(readonly type: ServerValueType, readonly args: any[] = []) {
+        if (!types.includes(type)) {
+            throw new TypeError(`Unknown server value type "${type}"`);
+        }
+        if (!(args instanceof Array)) {
+            throw new TypeError('args must be an array');
+        }
+    }
+
+    /**
+     * Placeholder for the current date and time of the database
+     */
+    static timestamp() {
+        return new ServerValue('timestamp');
+    }
+
+    /**
+     * Placeholder that increments the stored number by `delta`. If the stored value is not a number, `delta` is stored
+     * @param delta number (or bigint) to add to the stored value, use a negative value to decrement. Default is `1`
+     */
+    static increment(delta: number|bigint = 1) {
+        if (typeof delta !== 'number' && typeof delta !== 'bigint') {
+            throw new TypeError('delta must be a number or bigint');
+        }
+        return new ServerValue('increment', [delta]);
+    }
+
+    /**
+     * Placeholder that adds items to the stored array that it does not contain yet. If the stored value is not an array, a new array is stored
+     * @param items items to add
+     */
+    static arrayUnion(...items: any[]) {
+        return new ServerValue('arrayUnion', items);
+    }
+
+    /**
+     * Placeholder that removes all instances of items from the stored array. If the stored value is not an array, an empty array is stored
+     * @param items items to remove
+     */
+    static arrayRemove(...items: any[]) {
+        return new ServerValue('arrayRemove', items);
+    }
+
+    /**
+     * Gets the value to store for this placeholder
+     * @param current currently stored value
+     * @param timestamp time of the write operation, defaults to now
+     */
+    resolve(current: any, timestamp = Date.now()): any {
+        switch (this.type) {
+            case 'timestamp': {
+                return new Date(timestamp);
+            }
+            case 'increment': {
+                const delta = this.args[0];
+                if (typeof current === 'bigint' || typeof delta === 'bigint') {
+                    return typeof current === typeof delta ? current + delta : typeof current === 'number' ? BigInt(current) + delta : delta;
+                }
+                return typeof current === 'number' ? current + delta : delta;
+            }
+            case 'arrayUnion': {
+                const items = current instanceof Array ? current.slice() : [];
+                this.args.forEach(item => {
+                    if (!items.some(other => valuesAreEqual(other, item))) { items.push(item); }
+                });
+                return items;
+            }
+            case 'arrayRemove': {
+                const items = current instanceof Array ? current : [];
+                return items.filter(item => !this.args.some(other => valuesAreEqual(other, item)));
+            }
+        }
+    }
+
+    /**
+     * Replaces all placeholders in a value that is about to be written with their resolved values. Used by storage engines
+     * @param value value to write
+     * @param current currently stored value at the same path
+     * @param timestamp time of the write operation, defaults to now. All timestamp placeholders in the value resolve to the same time
+     * @returns the value to store, a copy if it contained placeholders
+     */
+    static resolveAll(value: any, current: any, timestamp = Date.now()): any {
+        if (value instanceof ServerValue) {
+            return value.resolve(current, timestamp);
+        }
+        if (value === null || typeof value !== 'object' || value.constructor !== Object && !(value instanceof Array)) {
+            return value;
+        }
+        let copy: any = value;
+        Object.keys(value).forEach(key => {
+            const child = current !== null && typeof current === 'object' ? current[key] ?? null : null;
+            const resolved = ServerValue.resolveAll(value[key], child, timestamp);
+            if (resolved !== value[key]) {
+                if (copy === value) { copy = value instanceof Array ? value.slice() : { ...value }; }
+                copy[key] = resolved;
+            }
+        });
+        return copy;
+    }
+}
@@ -2,6 +2,7 @@ import { serialize, deserialize, serialize2, deserialize2, detectSerializeVersio
 import { PartialArray } from './partial-array';
 import { encodeString } from './utils';
 import { PathReference } from './path-reference';
+import { ServerValue } from './server-value';
 
 describe('Transport (de)serializing', () => {
 
@@ -259,4 +260,45 @@ describe('Transport (de)serializing', () => {
         const ver2 = detectSerializeVersion(ser2);
         expect(ver2).toBe(2);
     });
+
+    it('server values', () => {
+        const date = new Date();
+        const val = {
+            visits: ServerValue.increment(2),
+            big: ServerValue.increment(BigInt(5)),
+            lastSeen: ServerValue.timestamp(),
+            dates: ServerValue.arrayUnion(date, 'text'),
+        };
+
+        // v1
+        const ser = serialize(val);
+        expect(ser).toEqual({
+            map: { visits: 'servervalue', big: 'servervalue', lastSeen: 'servervalue', dates: 'servervalue' },
+            val: {
+                visits: { type: 'increment', args: [2] },
+                big: { type: 'increment', args: [{ '.type': 'bigint', '.val': '5' }] },
+                lastSeen: { type: 'timestamp', args: [] },
+                dates: { type: 'arrayUnion', args: [{ '.type': 'date', '.val': date.toISOString() }, 'text'] },
+            },
+        });
+        const check = deserialize(ser);
+        expect(check).toEqual(val);
+        expect(check.dates).toBeInstanceOf(ServerValue);
+
+        const single = serialize(ServerValue.arrayRemove(date));
+        expect(single).toEqual({ map: 'servervalue', val: { type: 'arrayRemove', args: [{ '.type': 'date', '.val': date.toISOString() }] } });
+        expect(deserialize(single)).toEqual(ServerValue.arrayRemove(date));
+
+        // v2
+        const ser2 = serialize2(val);
+        expect(ser2 as any).toEqual({
+            visits: { '.type': 'servervalue', '.val': { type: 'increment', args: [2] } },
+            big: { '.type': 'servervalue', '.val': { type: 'increment', args: [{ '.type': 'bigint', '.val': '5' }] } },
+            lastSeen: { '.type': 'servervalue', '.val': { type: 'timestamp', args: [] } },
+            dates: { '.type': 'servervalue', '.val': { type: 'arrayUnion', args: [{ '.type': 'date', '.val': date.toISOString() }, 'text'] } },
+        });
+        const check2 = deserialize2(ser2);
+        expect(check2).toEqual(val);
+        expect(check2.visits).toBeInstanceOf(ServerValue);
+    });
 });
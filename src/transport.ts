@@ -3,8 +3,9 @@ import { cloneObject } from './utils';
 import { ascii85 } from './ascii85';
 import { PathInfo } from './path-info';
 import { PartialArray } from './partial-array';
+import { ServerValue, ServerValueType } from './server-value';
 
-export type SerializedDataType = 'date'|'binary'|'reference'|'regexp'|'array'|'bigint';
+export type SerializedDataType = 'date'|'binary'|'reference'|'regexp'|'array'|'bigint'|'servervalue';
 export type SerializedDataMap = { [path: string]: SerializedDataType };
 export type SerializedValue =  { map?: SerializedDataType | SerializedDataMap, val: any };
 
@@ -15,9 +16,10 @@ export type V2SerializedReference = { '.type': 'reference'; '.val': string };
 export type V2SerializedRegExp = { '.type': 'regexp'; '.val': string|{ pattern: string; flags: string } };
 export type V2SerializedPartialArray = { '.type': 'array'; [index: string]: any };
 export type V2SerializedBigInt = { '.type': 'bigint'; '.val': string };
+export type V2SerializedServerValue = { '.type': 'servervalue'; '.val': { type: ServerValueType; args: V2SerializedValue[] } };
 export type V2SerializedObject = { [key: string]: V2SerializedValue };
 export type V2SerializedArray = V2SerializedValue[];
-export type V2SerializedValue = V2SerializedPrimitive|V2SerializedDate|V2SerializedBinary|V2SerializedReference|V2SerializedRegExp|V2SerializedPartialArray|V2SerializedBigInt|V2SerializedObject|V2SerializedArray;
+export type V2SerializedValue = V2SerializedPrimitive|V2SerializedDate|V2SerializedBinary|V2SerializedReference|V2SerializedRegExp|V2SerializedPartialArray|V2SerializedBigInt|V2SerializedServerValue|V2SerializedObject|V2SerializedArray;
 
 /*
     There are now 2 different serialization methods for transporting values.
@@ -49,6 +51,11 @@ export type V2SerializedValue = V2SerializedPrimitive|V2SerializedDate|V2Seriali
     original: { "date": (some date), "text": "Some string" }
     v1 serialized: { "map": { "date": "date" }, "val": { date: "2022-04-22T07:49:23Z", "text": "Some string" } }
     v2 serialized: { "date": { ".type": "date", ".val": "2022-04-22T07:49:23Z" }, "text": "Some string" }
+
+    original: { "visits": ServerValue.increment(1) }
+    v1 serialized: { "map": { "visits": "servervalue" }, "val": { "visits": { "type": "increment", "args": [1] } } }
+    v2 serialized: { "visits": { ".type": "servervalue", ".val": { "type": "increment", "args": [1] } } }
+    comment: server value placeholders are resolved by the storage side upon writing. Their arguments are always serialized inline (v2)
 */
 
 /**
@@ -82,6 +89,9 @@ export const deserialize = (data: SerializedValue) => {
         else if (type === 'bigint') {
             return BigInt(val);
         }
+        else if (type === 'servervalue') {
+            return new ServerValue(val.type, val.args.map(deserialize2));
+        }
         return val;
     };
     if (typeof data.map === 'string') {
@@ -133,7 +143,7 @@ export const detectSerializeVersion = (data: any) => {
  */
 export const serialize = (obj: any): SerializedValue => {
     // Recursively find dates and binary data
-    if (obj === null || typeof obj !== 'object' || obj instanceof Date || obj instanceof ArrayBuffer || obj instanceof PathReference || obj instanceof RegExp) {
+    if (obj === null || typeof obj !== 'object' || obj instanceof Date || obj instanceof ArrayBuffer || obj instanceof PathReference || obj instanceof RegExp || obj instanceof ServerValue) {
         // Single value
         const ser = serialize({ value: obj });
         return {
@@ -172,6 +182,11 @@ export const serialize = (obj: any): SerializedValue => {
                 obj[key] = { pattern: val.source, flags: val.flags };
                 mappings[path] = 'regexp';
             }
+            else if (val instanceof ServerValue) {
+                // Serialize placeholder, its arguments are serialized inline (v2) so no additional mappings are needed
+                obj[key] = { type: val.type, args: val.args.map(serialize2) };
+                mappings[path] = 'servervalue';
+            }
             else if (typeof val === 'object' && val !== null) {
                 process(val, mappings, path);
             }
@@ -233,6 +248,12 @@ export const serialize2 = (obj: any): V2SerializedValue => {
                 // }
             };
         }
+        else if (val instanceof ServerValue) {
+            return <V2SerializedServerValue> {
+                '.type': 'servervalue',
+                '.val': { type: val.type, args: val.args.map(getSerializedValue) },
+            };
+        }
         else if (typeof val === 'object' && val !== null) {
             if (val instanceof Array) {
                 const copy: V2SerializedArray = [];
@@ -340,6 +361,10 @@ export const deserialize2 = (data: V2SerializedValue): any => {
             // serialized as object with pattern & flags properties
             return new RegExp(val.pattern, val.flags);
         }
+        else if (dataType === 'servervalue') {
+            const val = (data as V2SerializedServerValue)['.val'];
+            return new ServerValue(val.type, val.args.map(deserialize2));
+        }
     }
     throw new Error(`Unknown data type "${(data as any)['.type']}" in serialized value`);
 };
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
-import { cloneObject, compareValues, valuesAreEqual, getMutations, ObjectDifferences, bigintToBytes, bytesToBigint } from './utils';
+import { cloneObject, compareValues, valuesAreEqual, getMutations, ObjectDifferences, bigintToBytes, bytesToBigint, encodeBase64Url, decodeBase64Url } from './utils';
 
 describe('Utils', function() {
 
@@ -76,6 +76,22 @@ describe('Utils', function() {
         chatClone = cloneObject(chat);
     });
 
+    it('encodeBase64Url & decodeBase64Url', () => {
+        const bytes = Array.from({ length: 256 }, (_, i) => i);
+        const base64Url = (input: Uint8Array) => Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+        for (let length = 0; length <= 5; length++) {
+            const input = new Uint8Array(bytes.slice(250 - length, 250));
+            const encoded = encodeBase64Url(input);
+            expect(encoded).toBe(base64Url(input));
+            expect(decodeBase64Url(encoded)).toEqual(input);
+        }
+        const all = new Uint8Array(bytes);
+        expect(encodeBase64Url(all)).toBe(base64Url(all));
+        expect(decodeBase64Url(Buffer.from(all).toString('base64'))).toEqual(all);
+        expect(() => decodeBase64Url('a')).toThrow();
+        expect(() => decodeBase64Url('ab$d')).toThrow();
+    });
+
     it('bigintToBytes & bytesToBigint', () => {
 
         // Try 0
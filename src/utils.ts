@@ -1,4 +1,5 @@
 import { PathReference } from './path-reference';
+import { ServerValue } from './server-value';
 import process from './process';
 import { PartialArray } from './partial-array';
 import type { DataSnapshot } from './data-snapshot'; // type only!
@@ -228,6 +229,46 @@ export function decodeString(buffer: TypedArrayLike | TypedArray | number[]): st
     }
 }
 
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Encodes bytes to an url safe base64 string (`-` and `_` instead of `+` and `/`, without padding). Does not depend
+ * on `btoa` or `Buffer`, so it works in every environment
+ */
+export function encodeBase64Url(bytes: TypedArray | number[]): string {
+    let str = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        const chars = Math.min(bytes.length - i, 3) + 1;
+        for (let j = 0; j < chars; j++) {
+            str += base64Chars[(n >> (18 - j * 6)) & 0x3f];
+        }
+    }
+    return str;
+}
+
+/**
+ * Decodes an url safe base64 string created by `encodeBase64Url`. Standard base64 characters (`+` and `/`) and
+ * padding are also accepted
+ */
+export function decodeBase64Url(str: string): Uint8Array {
+    str = str.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+    if (str.length % 4 === 1) { throw new Error('Invalid base64 string length'); }
+    const bytes = new Uint8Array(Math.floor(str.length * 3 / 4));
+    let n = 0, bits = 0, index = 0;
+    for (let i = 0; i < str.length; i++) {
+        const value = base64Chars.indexOf(str[i]);
+        if (value < 0) { throw new Error(`Invalid base64 character "${str[i]}"`); }
+        n = (n << 6) | value;
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes[index++] = (n >> bits) & 0xff;
+        }
+    }
+    return bytes;
+}
+
 type Constructable<T> = {
     new(...args: any[]): T
 }
@@ -257,7 +298,7 @@ export function cloneObject(original: any, stack?: any[]) {
     };
     original = checkAndFixTypedArray(original);
 
-    if (typeof original !== 'object' || original === null || original instanceof Date || original instanceof ArrayBuffer || original instanceof PathReference || original instanceof RegExp) {
+    if (typeof original !== 'object' || original === null || original instanceof Date || original instanceof ArrayBuffer || original instanceof PathReference || original instanceof RegExp || original instanceof ServerValue) {
         return original;
     }
 
@@ -266,7 +307,7 @@ export function cloneObject(original: any, stack?: any[]) {
             throw new ReferenceError('object contains a circular reference');
         }
         val = checkAndFixTypedArray(val);
-        if (val === null || val instanceof Date || val instanceof ArrayBuffer || val instanceof PathReference || val instanceof RegExp) { // || val instanceof ID
+        if (val === null || val instanceof Date || val instanceof ArrayBuffer || val instanceof PathReference || val instanceof RegExp || val instanceof ServerValue) { // || val instanceof ID
             return val;
         }
         else if (typeof val === 'object') {